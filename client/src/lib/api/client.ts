@@ -0,0 +1,130 @@
+// Fetch wrapper the generated API functions call. Requests go out with the
+// session cookie, or with an API token when one is set, and any response
+// outside 2xx is thrown as an ApiError built from the server's error body.
+
+export interface FieldError {
+	path: string;
+	message: string;
+	code: string;
+	location?: 'params' | 'query' | 'body';
+}
+
+export interface RequestOptions {
+	signal?: AbortSignal;
+	headers?: Record<string, string>;
+}
+
+export interface RequestInput extends RequestOptions {
+	params?: Record<string, string | number>;
+	query?: object;
+	body?: unknown;
+	// Send the body as multipart form data, for uploads
+	multipart?: boolean;
+	responseType?: 'json' | 'blob';
+}
+
+export interface ApiClientOptions {
+	// Prepended to every path, for an API on another origin
+	baseUrl?: string;
+	// Bearer token to use instead of the session cookie
+	token?: string | (() => string | undefined);
+	// SvelteKit's fetch in load functions, the global one elsewhere
+	fetch?: typeof fetch;
+	// Called before the error is thrown when the session or token is no good
+	onUnauthorized?: (error: ApiError) => void;
+}
+
+export class ApiError extends Error {
+	readonly code: string;
+	readonly errors: FieldError[];
+	readonly details: Record<string, unknown>;
+
+	constructor(
+		readonly status: number,
+		body: { code?: string; message?: string; errors?: FieldError[]; [detail: string]: unknown }
+	) {
+		const { code = 'unknown_error', message = `Request failed with status ${status}`, errors = [], ...details } = body;
+		super(message);
+		this.name = 'ApiError';
+		this.code = code;
+		this.errors = errors;
+		this.details = details;
+	}
+
+	// The message for a field, for showing next to a form input
+	fieldError(path: string): string | undefined {
+		return this.errors.find((error) => error.path === path)?.message;
+	}
+}
+
+function toSearchParams(query: object): string {
+	const search = new URLSearchParams();
+	for (const [key, value] of Object.entries(query)) {
+		if (value === undefined || value === null) continue;
+		for (const item of Array.isArray(value) ? value : [value]) {
+			search.append(key, item instanceof Date ? item.toISOString() : String(item));
+		}
+	}
+	const result = search.toString();
+	return result ? `?${result}` : '';
+}
+
+function toFormData(body: unknown): FormData {
+	const form = new FormData();
+	for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
+		if (value === undefined || value === null) continue;
+		for (const item of Array.isArray(value) ? value : [value]) {
+			form.append(key, item instanceof Blob ? item : String(item));
+		}
+	}
+	return form;
+}
+
+export class ApiClient {
+	constructor(private readonly options: ApiClientOptions = {}) {}
+
+	async request<T>(method: string, path: string, input: RequestInput = {}): Promise<T> {
+		const url =
+			(this.options.baseUrl ?? '') +
+			path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(String(input.params?.[name]))) +
+			toSearchParams(input.query ?? {});
+
+		const headers: Record<string, string> = { Accept: 'application/json', ...input.headers };
+		const token = typeof this.options.token === 'function' ? this.options.token() : this.options.token;
+		if (token) {
+			headers.Authorization = `Bearer ${token}`;
+		}
+
+		let body: BodyInit | undefined;
+		if (input.body !== undefined) {
+			if (input.multipart) {
+				// The browser sets the content type with the form boundary
+				body = toFormData(input.body);
+			} else {
+				headers['Content-Type'] = 'application/json';
+				body = JSON.stringify(input.body);
+			}
+		}
+
+		const response = await (this.options.fetch ?? fetch)(url, {
+			method,
+			headers,
+			body,
+			signal: input.signal,
+			credentials: 'same-origin'
+		});
+
+		if (!response.ok) {
+			const error = new ApiError(response.status, await response.json().catch(() => ({})));
+			if (response.status === 401) {
+				this.options.onUnauthorized?.(error);
+			}
+			throw error;
+		}
+
+		if (input.responseType === 'blob') {
+			return (await response.blob()) as T;
+		}
+		return (response.status === 204 ? undefined : await response.json()) as T;
+	}
+}
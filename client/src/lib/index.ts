@@ -1 +1,3 @@
 // place files you want to import through the `$lib` alias in this folder.
+export * from './api/client';
+export * from './api/generated';
@@ -0,0 +1,58 @@
+import type { IStorage } from "./storage";
+import { deleteTradeWithAttachments, type AttachmentStore } from "./attachments";
+
+export interface AccountDeletionSummary {
+  trades: number;
+  collections: number;
+  tags: number;
+  importProfiles: number;
+  apiTokens: number;
+  sessions: number;
+  auditEntries: number;
+}
+
+// Delete a user and everything they own. Children go first and the user
+// record last, so a failure part way can be retried by the same user.
+export async function deleteUserAccount(storage: IStorage, store: AttachmentStore, userId: number): Promise<AccountDeletionSummary> {
+  const [activeTrades, activeCollections, trash, tags, importProfiles, apiTokens] = await Promise.all([
+    storage.getUserTrades(userId),
+    storage.getUserCollections(userId),
+    storage.getUserTrash(userId),
+    storage.getUserTags(userId),
+    storage.getUserImportProfiles(userId),
+    storage.getUserApiTokens(userId),
+  ]);
+  const trades = [...activeTrades, ...trash.trades];
+  const collections = [...activeCollections, ...trash.collections];
+
+  // Deleting a trade also removes its executions and attachments
+  for (const trade of trades) {
+    await deleteTradeWithAttachments(storage, store, trade.id);
+  }
+  for (const collection of collections) {
+    await storage.deleteCollection(collection.id);
+  }
+  for (const tag of tags) {
+    await storage.deleteTag(tag.id);
+  }
+  for (const profile of importProfiles) {
+    await storage.deleteImportProfile(profile.id);
+  }
+  for (const token of apiTokens) {
+    await storage.deleteApiToken(token.id);
+  }
+  const sessions = await storage.deleteUserSessions(userId);
+  const auditEntries = await storage.deleteUserAuditEntries(userId);
+
+  await storage.deleteUser(userId);
+
+  return {
+    trades: trades.length,
+    collections: collections.length,
+    tags: tags.length,
+    importProfiles: importProfiles.length,
+    apiTokens: apiTokens.length,
+    sessions,
+    auditEntries,
+  };
+}
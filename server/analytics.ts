@@ -0,0 +1,299 @@
+import { z } from "zod";
+import type { Trade } from "@shared/schema";
+import { calculateNetTradePnl, calculateTradePnl } from "./pnl";
+import { addFees, emptyFeeBreakdown, tradeFees, type FeeBreakdown } from "./fees";
+import { timezoneSchema } from "./timezone";
+
+// Rejects dates like 2024-02-31 that Date would roll over into March
+function isCalendarDate(date: string): boolean {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+// A calendar date (YYYY-MM-DD) stands for that whole day in the requested
+// timezone, anything else for an exact instant
+const dateBoundSchema = z.union([
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/).refine(isCalendarDate, { message: "Invalid date" }),
+  z.coerce.date(),
+]);
+
+export type DateBound = z.infer<typeof dateBoundSchema>;
+
+// Query parameters shared by the analytics routes
+export const analyticsFilterSchema = z.object({
+  from: dateBoundSchema.optional(),
+  to: dateBoundSchema.optional(),
+  symbol: z.string().trim().min(1).transform((symbol) => symbol.toUpperCase()).optional(),
+  collectionId: z.coerce.number().int().optional(),
+  // Whether P&L figures are before (gross) or after (net) trading costs
+  basis: z.enum(["gross", "net"]).default("net"),
+});
+
+export type AnalyticsFilter = z.infer<typeof analyticsFilterSchema>;
+export type PnlBasis = AnalyticsFilter["basis"];
+
+export const timeSeriesQuerySchema = analyticsFilterSchema.extend({
+  interval: z.enum(["day", "week", "month"]).default("day"),
+  // Decides which trading day a trade closed on
+  timezone: timezoneSchema,
+});
+
+export const equityCurveQuerySchema = timeSeriesQuerySchema.extend({
+  startingBalance: z.coerce.number().default(0),
+});
+
+export type TimeSeriesInterval = z.infer<typeof timeSeriesQuerySchema>["interval"];
+
+export interface ClosedTrade {
+  trade: Trade;
+  // P&L on the requested basis
+  pnl: number;
+  grossPnl: number;
+  fees: FeeBreakdown;
+  exitDate: Date;
+}
+
+export interface PerformanceSummary {
+  basis: PnlBasis;
+  totalTrades: number;
+  openTrades: number;
+  closedTrades: number;
+  wins: number;
+  losses: number;
+  breakeven: number;
+  winRate: number | null;
+  totalPnl: number;
+  // Gross and net totals are always both reported, whatever the basis
+  grossPnl: number;
+  netPnl: number;
+  fees: FeeBreakdown;
+  grossProfit: number;
+  grossLoss: number;
+  profitFactor: number | null;
+  expectancy: number | null;
+  averageWin: number | null;
+  averageLoss: number | null;
+  largestWin: number | null;
+  largestLoss: number | null;
+  maxDrawdown: number;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  longestWinStreak: number;
+  longestLossStreak: number;
+}
+
+// Daily returns are annualized over trading days, not calendar days
+const TRADING_DAYS_PER_YEAR = 252;
+
+// Whether an instant falls on or after from, and on or before to. Calendar
+// dates compare against the instant's date in the timezone, so to=2024-01-31
+// takes in the whole of January 31st.
+function isAfterBound(date: Date, bound: DateBound, timezone: string): boolean {
+  return typeof bound === "string" ? localDate(date, timezone) >= bound : date >= bound;
+}
+
+function isBeforeBound(date: Date, bound: DateBound, timezone: string): boolean {
+  return typeof bound === "string" ? localDate(date, timezone) <= bound : date <= bound;
+}
+
+export function filterTrades(trades: Trade[], filter: Omit<AnalyticsFilter, "basis">, timezone = "UTC"): Trade[] {
+  return trades.filter((trade) => {
+    if (filter.symbol && String(trade.symbol).toUpperCase() !== filter.symbol) return false;
+    if (filter.collectionId !== undefined && trade.collectionId !== filter.collectionId) return false;
+
+    // Date filters apply to when a trade was closed, since that is when P&L is realized
+    if (filter.from || filter.to) {
+      if (!trade.exitDate) return false;
+      const exitDate = new Date(trade.exitDate);
+      if (filter.from && !isAfterBound(exitDate, filter.from, timezone)) return false;
+      if (filter.to && !isBeforeBound(exitDate, filter.to, timezone)) return false;
+    }
+
+    return true;
+  });
+}
+
+// Closed trades with their realized P&L, ordered by exit date
+export function closedTrades(trades: Trade[], basis: PnlBasis = "net"): ClosedTrade[] {
+  const closed: ClosedTrade[] = [];
+  for (const trade of trades) {
+    const grossPnl = calculateTradePnl(trade);
+    if (grossPnl === null || !trade.exitDate) continue;
+    const pnl = basis === "net" ? calculateNetTradePnl(trade)! : grossPnl;
+    closed.push({ trade, pnl, grossPnl, fees: tradeFees(trade), exitDate: new Date(trade.exitDate) });
+  }
+  return closed.sort((a, b) => a.exitDate.getTime() - b.exitDate.getTime());
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function sumBy<T>(items: T[], select: (item: T) => number): number {
+  return items.reduce((sum, item) => sum + select(item), 0);
+}
+
+// Largest peak-to-trough decline of cumulative P&L
+export function maxDrawdown(pnls: number[]): number {
+  let equity = 0;
+  let peak = 0;
+  let drawdown = 0;
+  for (const pnl of pnls) {
+    equity += pnl;
+    peak = Math.max(peak, equity);
+    drawdown = Math.max(drawdown, peak - equity);
+  }
+  return drawdown;
+}
+
+function longestStreak(pnls: number[], predicate: (pnl: number) => boolean): number {
+  let longest = 0;
+  let current = 0;
+  for (const pnl of pnls) {
+    current = predicate(pnl) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+// Calendar date (YYYY-MM-DD) of an instant in the given timezone
+export function localDate(date: Date, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+// Key of the bucket a date falls in. Weeks start on Monday and are keyed by
+// that Monday's date, months by YYYY-MM.
+export function periodKey(date: Date, interval: TimeSeriesInterval, timezone: string): string {
+  const day = localDate(date, timezone);
+
+  if (interval === "month") {
+    return day.slice(0, 7);
+  }
+
+  if (interval === "week") {
+    const calendarDay = new Date(`${day}T00:00:00Z`);
+    const daysSinceMonday = (calendarDay.getUTCDay() + 6) % 7;
+    calendarDay.setUTCDate(calendarDay.getUTCDate() - daysSinceMonday);
+    return calendarDay.toISOString().slice(0, 10);
+  }
+
+  return day;
+}
+
+export interface PeriodBucket {
+  period: string;
+  pnl: number;
+  trades: number;
+  wins: number;
+  losses: number;
+}
+
+// Group closed trades into periods, in chronological order
+export function bucketPnl(closed: ClosedTrade[], interval: TimeSeriesInterval, timezone: string): PeriodBucket[] {
+  const buckets = new Map<string, PeriodBucket>();
+
+  for (const { pnl, exitDate } of closed) {
+    const period = periodKey(exitDate, interval, timezone);
+    const bucket = buckets.get(period) ?? { period, pnl: 0, trades: 0, wins: 0, losses: 0 };
+    bucket.pnl += pnl;
+    bucket.trades += 1;
+    if (pnl > 0) bucket.wins += 1;
+    if (pnl < 0) bucket.losses += 1;
+    buckets.set(period, bucket);
+  }
+
+  return Array.from(buckets.values()).sort((a, b) => a.period.localeCompare(b.period));
+}
+
+export interface EquityPoint extends PeriodBucket {
+  equity: number;
+  peak: number;
+  drawdown: number;
+  drawdownPercent: number | null;
+}
+
+export function equityCurve(buckets: PeriodBucket[], startingBalance: number): EquityPoint[] {
+  let equity = startingBalance;
+  let peak = startingBalance;
+
+  return buckets.map((bucket) => {
+    equity += bucket.pnl;
+    peak = Math.max(peak, equity);
+    const drawdown = peak - equity;
+    return {
+      ...bucket,
+      equity,
+      peak,
+      drawdown,
+      drawdownPercent: peak > 0 ? drawdown / peak : null,
+    };
+  });
+}
+
+// Sum realized P&L per trading day
+export function dailyPnl(closed: ClosedTrade[], timezone = "UTC"): number[] {
+  return bucketPnl(closed, "day", timezone).map((bucket) => bucket.pnl);
+}
+
+export function sharpeRatio(daily: number[]): number | null {
+  if (daily.length < 2) return null;
+  const average = mean(daily);
+  const variance = sumBy(daily, (value) => (value - average) ** 2) / (daily.length - 1);
+  const deviation = Math.sqrt(variance);
+  return deviation === 0 ? null : (average / deviation) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+export function sortinoRatio(daily: number[]): number | null {
+  if (daily.length < 2) return null;
+  const average = mean(daily);
+  const downside = Math.sqrt(sumBy(daily, (value) => Math.min(value, 0) ** 2) / daily.length);
+  return downside === 0 ? null : (average / downside) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+export function summarizePerformance(trades: Trade[], timezone = "UTC", basis: PnlBasis = "net"): PerformanceSummary {
+  const closed = closedTrades(trades, basis);
+  const pnls = closed.map((c) => c.pnl);
+  const winning = pnls.filter((pnl) => pnl > 0);
+  const losing = pnls.filter((pnl) => pnl < 0);
+
+  const grossProfit = sumBy(winning, (pnl) => pnl);
+  const grossLoss = sumBy(losing, (pnl) => pnl);
+  const totalPnl = grossProfit + grossLoss;
+  const daily = dailyPnl(closed, timezone);
+  const grossPnl = sumBy(closed, (c) => c.grossPnl);
+  const fees = closed.reduce((sum, c) => addFees(sum, c.fees), emptyFeeBreakdown());
+
+  return {
+    basis,
+    totalTrades: trades.length,
+    openTrades: trades.length - closed.length,
+    closedTrades: closed.length,
+    wins: winning.length,
+    losses: losing.length,
+    breakeven: closed.length - winning.length - losing.length,
+    winRate: closed.length ? winning.length / closed.length : null,
+    totalPnl,
+    grossPnl,
+    netPnl: grossPnl - fees.total,
+    fees,
+    grossProfit,
+    grossLoss,
+    profitFactor: grossLoss !== 0 ? grossProfit / Math.abs(grossLoss) : null,
+    expectancy: closed.length ? totalPnl / closed.length : null,
+    averageWin: winning.length ? mean(winning) : null,
+    averageLoss: losing.length ? mean(losing) : null,
+    largestWin: winning.length ? Math.max(...winning) : null,
+    largestLoss: losing.length ? Math.min(...losing) : null,
+    maxDrawdown: maxDrawdown(pnls),
+    sharpeRatio: sharpeRatio(daily),
+    sortinoRatio: sortinoRatio(daily),
+    longestWinStreak: longestStreak(pnls, (pnl) => pnl > 0),
+    longestLossStreak: longestStreak(pnls, (pnl) => pnl < 0),
+  };
+}
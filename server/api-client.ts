@@ -0,0 +1,240 @@
+import fs from "fs";
+import path from "path";
+import type { JsonSchema } from "./openapi";
+
+// Typed client for the SvelteKit app, generated from the OpenAPI document.
+// Each operation becomes a function on createApi(client) with types for its
+// params, query, body and response. The output follows the client's code
+// style, tabs and single quotes.
+
+export const API_CLIENT_PATH = path.resolve(import.meta.dirname, "..", "client", "src", "lib", "api", "generated.ts");
+
+const HEADER = `// Generated from /api/openapi.json by server/api-client.ts. Don't edit this
+// file, run \`npm run generate:api\` after changing a route instead.`;
+
+const METHODS = ["get", "post", "put", "patch", "delete"];
+
+interface Operation {
+  id: string;
+  typeName: string;
+  method: string;
+  path: string;
+  summary?: string;
+  params?: JsonSchema;
+  query?: JsonSchema;
+  body?: { schema: JsonSchema; required: boolean; multipart: boolean };
+  response: { schema?: JsonSchema; binary: boolean };
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function literal(value: unknown): string {
+  return typeof value === "string" ? quote(value) : JSON.stringify(value);
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+function union(types: string[]): string {
+  return Array.from(new Set(types)).join(" | ") || "never";
+}
+
+// TypeScript for a JSON Schema, as nested by indent
+function toType(schema: JsonSchema, indent = ""): string {
+  const convert = (inner: unknown) => toType(inner as JsonSchema, indent);
+
+  if (typeof schema.$ref === "string") return schema.$ref.slice(schema.$ref.lastIndexOf("/") + 1);
+  if ("const" in schema) return literal(schema.const);
+  if (Array.isArray(schema.enum)) return union(schema.enum.map(literal));
+  if (Array.isArray(schema.anyOf)) return union(schema.anyOf.map(convert));
+  if (Array.isArray(schema.oneOf)) return union(schema.oneOf.map(convert));
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.map((inner) => convert(inner)).map((type) => (type.includes(" | ") ? `(${type})` : type)).join(" & ");
+  }
+  if (schema.not) return "never";
+
+  switch (schema.type) {
+    case "string":
+      return schema.format === "binary" ? "Blob" : "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array":
+      if (Array.isArray(schema.prefixItems)) return `[${schema.prefixItems.map(convert).join(", ")}]`;
+      return `Array<${schema.items ? convert(schema.items) : "unknown"}>`;
+    case "object":
+      return objectType(schema, indent);
+    default:
+      return "unknown";
+  }
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set((schema.required ?? []) as string[]);
+  const additional = schema.additionalProperties as JsonSchema | boolean | undefined;
+  const keys = Object.keys(properties);
+
+  if (keys.length === 0) {
+    if (additional && additional !== true) return `Record<string, ${toType(additional, indent)}>`;
+    return additional ? "Record<string, unknown>" : "Record<string, never>";
+  }
+
+  const inner = `${indent}\t`;
+  const lines: string[] = [];
+  for (const key of keys) {
+    const property = properties[key];
+    if (typeof property.description === "string") {
+      lines.push(`${inner}/** ${property.description} */`);
+    }
+    lines.push(`${inner}${propertyKey(key)}${required.has(key) ? "" : "?"}: ${toType(property, inner)};`);
+  }
+  // Named fields can't be narrower than the index signature allows
+  if (additional) {
+    lines.push(`${inner}[key: string]: unknown;`);
+  }
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+// Path or query parameters as one object type
+function parametersSchema(parameters: JsonSchema[], location: string): JsonSchema | undefined {
+  const matching = parameters.filter((parameter) => parameter.in === location);
+  if (matching.length === 0) return undefined;
+
+  return {
+    type: "object",
+    properties: Object.fromEntries(matching.map((parameter) => [parameter.name, parameter.schema])),
+    required: matching.filter((parameter) => parameter.required).map((parameter) => parameter.name),
+  };
+}
+
+function operations(document: JsonSchema): Operation[] {
+  const result: Operation[] = [];
+  const paths = (document.paths ?? {}) as Record<string, Record<string, JsonSchema>>;
+
+  for (const [routePath, pathItem] of Object.entries(paths)) {
+    for (const method of METHODS) {
+      const operation = pathItem[method] as any;
+      if (!operation) continue;
+
+      const parameters: JsonSchema[] = operation.parameters ?? [];
+      const requestContent = operation.requestBody?.content ?? {};
+      const multipart = "multipart/form-data" in requestContent;
+      const bodySchema = requestContent["multipart/form-data"]?.schema ?? requestContent["application/json"]?.schema;
+
+      const success = Object.entries(operation.responses ?? {}).find(([status]) => status.startsWith("2"));
+      const responseContent = ((success?.[1] as any)?.content ?? {}) as Record<string, { schema?: JsonSchema }>;
+      const json = responseContent["application/json"];
+
+      result.push({
+        id: operation.operationId,
+        typeName: operation.operationId[0].toUpperCase() + operation.operationId.slice(1),
+        method: method.toUpperCase(),
+        path: routePath,
+        summary: operation.summary,
+        params: parametersSchema(parameters, "path"),
+        query: parametersSchema(parameters, "query"),
+        body: bodySchema && { schema: bodySchema, required: operation.requestBody.required !== false, multipart },
+        response: { schema: json?.schema, binary: !json && Object.keys(responseContent).length > 0 },
+      });
+    }
+  }
+  return result;
+}
+
+function isEmpty(schema: JsonSchema | undefined): boolean {
+  return !schema || Object.keys(schema).length === 0;
+}
+
+function operationTypes(operation: Operation): string[] {
+  const { typeName } = operation;
+  const declarations: string[] = [];
+  const fields: string[] = [];
+
+  if (operation.params) {
+    declarations.push(`export type ${typeName}Params = ${toType(operation.params)};`);
+    fields.push(`\tparams: ${typeName}Params;`);
+  }
+  if (operation.query) {
+    const optional = ((operation.query.required ?? []) as string[]).length === 0;
+    declarations.push(`export type ${typeName}Query = ${toType(operation.query)};`);
+    fields.push(`\tquery${optional ? "?" : ""}: ${typeName}Query;`);
+  }
+  if (operation.body) {
+    declarations.push(`export type ${typeName}Body = ${toType(operation.body.schema)};`);
+    fields.push(`\tbody${operation.body.required ? "" : "?"}: ${typeName}Body;`);
+  }
+  if (fields.length > 0) {
+    declarations.push(`export type ${typeName}Request = {\n${fields.join("\n")}\n};`);
+  }
+
+  const response = operation.response.binary ? "Blob" : isEmpty(operation.response.schema) ? "unknown" : toType(operation.response.schema!);
+  declarations.push(`export type ${typeName}Response = ${response};`);
+  return declarations;
+}
+
+function operationFunction(operation: Operation): string {
+  const { typeName } = operation;
+  const flags = [
+    ...(operation.body?.multipart ? ["multipart: true"] : []),
+    ...(operation.response.binary ? ["responseType: 'blob'"] : []),
+  ];
+  const call = `client.request<${typeName}Response>(${quote(operation.method)}, ${quote(operation.path)}`;
+
+  const hasRequest = Boolean(operation.params || operation.query || operation.body);
+  const requestOptional =
+    !operation.params && (!operation.body || !operation.body.required) && ((operation.query?.required ?? []) as string[]).length === 0;
+
+  let signature: string;
+  let options: string;
+  if (hasRequest) {
+    signature = `(request: ${typeName}Request${requestOptional ? " = {}" : ""}, options?: RequestOptions)`;
+    options = `{ ...request, ...options${flags.map((flag) => `, ${flag}`).join("")} }`;
+  } else {
+    signature = "(options?: RequestOptions)";
+    options = flags.length > 0 ? `{ ...options, ${flags.join(", ")} }` : "options";
+  }
+
+  const doc = operation.summary ? `\t\t/** ${operation.summary} */\n` : "";
+  return `${doc}\t\t${operation.id}: ${signature} =>\n\t\t\t${call}, ${options})`;
+}
+
+export function generateApiClient(document: JsonSchema): string {
+  const components = ((document.components as any)?.schemas ?? {}) as Record<string, JsonSchema>;
+  const list = operations(document);
+
+  const sections = [
+    HEADER,
+    "import type { ApiClient, RequestOptions } from './client';",
+    ...Object.entries(components).map(([name, schema]) => `export type ${name} = ${toType(schema)};`),
+    ...list.map((operation) => operationTypes(operation).join("\n\n")),
+    `export function createApi(client: ApiClient) {\n\treturn {\n${list.map(operationFunction).join(",\n")}\n\t};\n}`,
+    "export type Api = ReturnType<typeof createApi>;",
+  ];
+  return `${sections.join("\n\n")}\n`;
+}
+
+// Whether the committed client is what the document generates
+export async function isApiClientCurrent(document: JsonSchema, filePath = API_CLIENT_PATH): Promise<boolean> {
+  const existing = await fs.promises.readFile(filePath, "utf-8").catch(() => undefined);
+  return existing === generateApiClient(document);
+}
+
+// Write the client, leaving the file alone when nothing changed. Returns
+// whether the file was written.
+export async function writeApiClient(document: JsonSchema, filePath = API_CLIENT_PATH): Promise<boolean> {
+  if (await isApiClientCurrent(document, filePath)) return false;
+
+  const contents = generateApiClient(document);
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, contents);
+  return true;
+}
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RouteRecorder, openApiPath, type JsonSchema } from "./openapi";
+import { apiRoutes } from "./api-docs";
+import { buildApiDocument, registerApiRoutes } from "./routes";
+
+// The routes as the server registers them, recorded without starting it
+const recorder = new RouteRecorder();
+registerApiRoutes(recorder);
+const registered = recorder.routes.filter((route) => route.path.startsWith("/api/"));
+const document = buildApiDocument(recorder.routes);
+const paths = document.paths as Record<string, Record<string, JsonSchema>>;
+
+test("every registered route is in the document", () => {
+  for (const route of registered) {
+    assert.ok(paths[openApiPath(route.path)]?.[route.method], `${route.method.toUpperCase()} ${route.path} is missing`);
+  }
+
+  const operations = Object.values(paths).flatMap((methods) => Object.keys(methods));
+  assert.equal(operations.length, registered.length);
+});
+
+test("every documented route is registered", () => {
+  const keys = new Set(registered.map((route) => `${route.method.toUpperCase()} ${route.path}`));
+  for (const key of Object.keys(apiRoutes)) {
+    assert.ok(keys.has(key), `API docs for ${key} match no route`);
+  }
+});
+
+test("operation ids are unique", () => {
+  const ids = Object.values(paths).flatMap((methods) => Object.values(methods).map((operation) => operation.operationId));
+  assert.equal(new Set(ids).size, ids.length);
+});
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import type { RouteDoc } from "./openapi";
+import { tradePageSchema, tradeRecordSchema } from "./trades";
+import { collectionRecordSchema } from "./collections";
+import { tagRecordSchema } from "./tags";
+import { executionRecordSchema } from "./executions";
+import { bulkTradeStatuses } from "./bulk-trades";
+
+// Names and responses of the API's operations, for the OpenAPI document and
+// the client generated from it. Requests are described by the validation
+// middleware on each route. Routes missing here still appear in the document,
+// with an operation id made from their path and an untyped response.
+
+const messageSchema = z.object({ message: z.string() }).passthrough();
+
+const publicUserSchema = z
+  .object({
+    id: z.number().int(),
+    email: z.string(),
+    twoFactorEnabled: z.boolean(),
+  })
+  .passthrough();
+
+const tradeWithExecutionSchema = z.object({ execution: executionRecordSchema, trade: tradeRecordSchema });
+
+const bulkTradeResponseSchema = z.object({
+  action: z.enum(["update", "move", "delete"]),
+  results: z.array(
+    z.object({
+      id: z.number().int(),
+      status: z.enum(bulkTradeStatuses),
+      trade: tradeRecordSchema.optional(),
+    })
+  ),
+});
+
+// Reusable types for the generated client
+export const apiSchemas = {
+  Trade: tradeRecordSchema,
+  TradePage: tradePageSchema,
+  Collection: collectionRecordSchema,
+  Tag: tagRecordSchema,
+  Execution: executionRecordSchema,
+  User: publicUserSchema,
+  Message: messageSchema,
+};
+
+export const apiRoutes: Record<string, RouteDoc> = {
+  "POST /api/auth/register": { operationId: "register", summary: "Create an account and sign in", status: 201, response: publicUserSchema },
+  "POST /api/auth/login": { operationId: "login", summary: "Sign in, or start a two-factor challenge" },
+  "POST /api/auth/login/verify": { operationId: "verifyLogin", summary: "Finish signing in with a second factor", response: publicUserSchema },
+  "POST /api/auth/logout": { operationId: "logout", summary: "Sign out", response: messageSchema },
+  "GET /api/auth/current-user": { operationId: "getCurrentUser", summary: "The signed in user and their plan" },
+  "PUT /api/auth/settings": { operationId: "updateSettings", summary: "Change account settings", response: publicUserSchema },
+  "DELETE /api/auth/account": { operationId: "deleteAccount", summary: "Delete the account and everything in it", response: messageSchema },
+
+  "GET /api/trades": {
+    operationId: "listTrades",
+    summary: "Search trades. With a limit or cursor the result comes in pages, otherwise as one array.",
+    response: z.union([tradePageSchema, z.array(tradeRecordSchema)]),
+  },
+  "POST /api/trades": { operationId: "createTrade", summary: "Record a trade", status: 201, response: tradeRecordSchema },
+  "POST /api/trades/import": { operationId: "importTrades", summary: "Import trades from a broker CSV", status: 201, upload: { field: "file" } },
+  "POST /api/trades/bulk": { operationId: "bulkUpdateTrades", summary: "Update, move or delete many trades at once", response: bulkTradeResponseSchema },
+  "GET /api/trades/:id": { operationId: "getTrade", response: tradeRecordSchema },
+  "PUT /api/trades/:id": { operationId: "updateTrade", response: tradeRecordSchema },
+  "DELETE /api/trades/:id": { operationId: "deleteTrade", summary: "Move a trade to the trash", response: messageSchema },
+  "GET /api/trades/:id/history": { operationId: "getTradeHistory" },
+  "POST /api/trades/:id/history/:version/restore": { operationId: "restoreTradeVersion", response: tradeRecordSchema },
+  "PUT /api/trades/:id/tags": { operationId: "setTradeTags", response: tradeRecordSchema },
+  "GET /api/trades/:id/attachments": { operationId: "listAttachments" },
+  "POST /api/trades/:id/attachments": { operationId: "uploadAttachments", status: 201, upload: { field: "file", multiple: true } },
+  "GET /api/trades/:id/attachments/:attachmentId": { operationId: "downloadAttachment", download: "application/octet-stream" },
+  "DELETE /api/trades/:id/attachments/:attachmentId": { operationId: "deleteAttachment", response: messageSchema },
+  "GET /api/trades/:id/executions": { operationId: "listExecutions", response: z.array(executionRecordSchema) },
+  "POST /api/trades/:id/executions": { operationId: "createExecution", status: 201, response: tradeWithExecutionSchema },
+  "PUT /api/trades/:id/executions/:executionId": { operationId: "updateExecution", response: tradeWithExecutionSchema },
+  "DELETE /api/trades/:id/executions/:executionId": { operationId: "deleteExecution", response: messageSchema },
+
+  "GET /api/collections": { operationId: "listCollections", response: z.array(collectionRecordSchema) },
+  "POST /api/collections": { operationId: "createCollection", status: 201, response: collectionRecordSchema },
+  "GET /api/collections/:id": { operationId: "getCollection", response: collectionRecordSchema },
+  "PUT /api/collections/:id": { operationId: "updateCollection", response: collectionRecordSchema },
+  "DELETE /api/collections/:id": { operationId: "deleteCollection", summary: "Move a collection to the trash", response: messageSchema },
+  "GET /api/collections/:id/trades": { operationId: "listCollectionTrades", response: z.array(tradeRecordSchema) },
+  "GET /api/collections/:id/analytics": { operationId: "getCollectionAnalytics" },
+  "GET /api/collections/:id/history": { operationId: "getCollectionHistory" },
+
+  "GET /api/tags": { operationId: "listTags", response: z.array(tagRecordSchema) },
+  "POST /api/tags": { operationId: "createTag", status: 201, response: tagRecordSchema },
+  "PUT /api/tags/:id": { operationId: "updateTag", response: tagRecordSchema },
+  "DELETE /api/tags/:id": { operationId: "deleteTag", response: messageSchema },
+
+  "GET /api/trash": { operationId: "listTrash" },
+  "DELETE /api/trash": { operationId: "emptyTrash", response: messageSchema },
+  "POST /api/trash/trades/:id/restore": { operationId: "restoreTrade", response: tradeRecordSchema },
+  "DELETE /api/trash/trades/:id": { operationId: "purgeTrade", response: messageSchema },
+  "POST /api/trash/collections/:id/restore": { operationId: "restoreCollection" },
+  "DELETE /api/trash/collections/:id": { operationId: "purgeCollection", response: messageSchema },
+
+  "GET /api/analytics/summary": { operationId: "getAnalyticsSummary" },
+  "GET /api/analytics/tags": { operationId: "getTagAnalytics" },
+  "GET /api/analytics/equity-curve": { operationId: "getEquityCurve" },
+  "GET /api/analytics/calendar": { operationId: "getCalendar" },
+
+  "GET /api/export": { operationId: "exportAccount", summary: "Download the account as a zip archive", download: "application/zip" },
+  "POST /api/import/archive": { operationId: "importAccount", summary: "Restore an account archive", status: 201, upload: { field: "file" } },
+};
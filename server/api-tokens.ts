@@ -0,0 +1,124 @@
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import type { Request } from "express";
+import type { User as SchemaUser } from "@shared/schema";
+
+export const apiTokenScopes = [
+  "trades:read",
+  "trades:write",
+  "trades:*",
+  "collections:read",
+  "collections:write",
+  "collections:*",
+  "tags:read",
+  "tags:write",
+  "tags:*",
+  "analytics:read",
+] as const;
+
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1).transform((scopes) => Array.from(new Set(scopes))),
+  rateLimitPerMinute: z.number().int().min(1).max(600).default(60),
+});
+
+export interface InsertApiToken {
+  userId: number;
+  name: string;
+  tokenHash: string;
+  // First characters of the token, so users can tell their tokens apart
+  prefix: string;
+  scopes: ApiTokenScope[];
+  rateLimitPerMinute: number;
+  lastUsedAt: Date | null;
+}
+
+export type ApiToken = InsertApiToken & { id: number; createdAt: Date };
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request was authenticated with a bearer token
+      apiToken?: ApiToken;
+    }
+
+    // The signed-in user, from the session or as the owner of the API token
+    interface User extends SchemaUser {}
+  }
+}
+
+const TOKEN_PREFIX = "chj_";
+
+export function generateApiToken(): string {
+  return TOKEN_PREFIX + randomBytes(32).toString("base64url");
+}
+
+// Tokens are long and random, a plain SHA-256 is enough to store them safely
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function bearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return undefined;
+  const token = header.slice("Bearer ".length).trim();
+  return token.startsWith(TOKEN_PREFIX) ? token : undefined;
+}
+
+// Never send the hash back to clients
+export function toPublicApiToken(token: ApiToken) {
+  const { tokenHash, ...publicToken } = token;
+  return publicToken;
+}
+
+// Scope a request needs, derived from its path and method. Routes outside
+// these areas (account, billing, token management) can't be used with tokens.
+export function requiredScope(req: Request): ApiTokenScope | null {
+  const [, area] = req.path.match(/^\/api\/([^/]+)/) ?? [];
+  const write = !["GET", "HEAD", "OPTIONS"].includes(req.method);
+
+  switch (area) {
+    case "trades":
+      return write ? "trades:write" : "trades:read";
+    case "collections":
+      return write ? "collections:write" : "collections:read";
+    case "tags":
+      return write ? "tags:write" : "tags:read";
+    case "analytics":
+      return write ? null : "analytics:read";
+    default:
+      return null;
+  }
+}
+
+export function hasScope(token: ApiToken, scope: ApiTokenScope): boolean {
+  const [area] = scope.split(":");
+  return token.scopes.includes(scope) || token.scopes.includes(`${area}:*` as ApiTokenScope);
+}
+
+// Fixed one-minute window per token. Kept in process memory, so the limit is
+// per instance.
+const rateWindows = new Map<number, { windowStart: number; count: number }>();
+
+export function consumeRateLimit(token: ApiToken, now = Date.now()): { allowed: boolean; retryAfterSeconds: number } {
+  const window = rateWindows.get(token.id);
+
+  if (!window || now - window.windowStart >= 60_000) {
+    rateWindows.set(token.id, { windowStart: now, count: 1 });
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  if (window.count >= token.rateLimitPerMinute) {
+    return { allowed: false, retryAfterSeconds: Math.ceil((window.windowStart + 60_000 - now) / 1000) };
+  }
+
+  window.count += 1;
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+// Only write lastUsedAt once a minute, a busy bot would otherwise write on every call
+export function shouldTouchApiToken(token: ApiToken, now = new Date()): boolean {
+  return !token.lastUsedAt || now.getTime() - new Date(token.lastUsedAt).getTime() > 60_000;
+}
@@ -0,0 +1,448 @@
+import path from "path";
+import { z } from "zod";
+import type { Writable } from "stream";
+import { insertCollectionSchema, insertTradeSchema, type Collection, type InsertCollection, type InsertTrade, type Trade, type User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { formatCsv } from "./csv";
+import { ZipWriter, readZip } from "./zip";
+import { ValidationError, toFieldErrors, type FieldError } from "./errors";
+import { toPublicUser } from "./two-factor";
+import { DEFAULT_CURRENCY, currencySchema } from "./currency";
+import { commissionSchedulesSchema, tradeFeesSchema } from "./fees";
+import { tradeInstrumentSchema } from "./instruments";
+import { insertExecutionSchema, matchingMethods, type Execution, type InsertExecution } from "./executions";
+import { MAX_ATTACHMENT_SIZE, deleteTradeWithAttachments, imageContentType, saveAttachment, type Attachment, type AttachmentStore } from "./attachments";
+import { insertTagSchema, type InsertTag, type Tag } from "./tags";
+import { insertImportProfileSchema, type ImportProfile, type InsertImportProfile } from "./trade-import";
+
+export const ARCHIVE_FORMAT = "cold-harbor-export";
+export const ARCHIVE_VERSION = 1;
+
+// Uncompressed size accepted for the JSON files when restoring. Attachment
+// files are allowed MAX_ATTACHMENT_SIZE each on top of this.
+const MAX_ARCHIVE_DATA = 32 * 1024 * 1024;
+const MAX_MANIFEST_SIZE = 64 * 1024;
+
+// Raised when an uploaded archive can't be restored. The message is safe to
+// show to the user.
+export class ArchiveError extends ValidationError {
+  constructor(message: string, errors: FieldError[] = []) {
+    super(message, errors, { code: "invalid_archive" });
+  }
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  counts: Record<string, number>;
+  // Attachments whose files were missing from storage at export time
+  missingAttachments: number[];
+}
+
+// Attachment metadata as exported: the storage key is internal, the file's
+// path inside the archive takes its place
+type ArchivedAttachment = Omit<Attachment, "storageKey"> & { file: string | null };
+
+const DATASETS = ["trades", "collections", "tags", "executions", "attachments", "import-profiles"] as const;
+type Dataset = typeof DATASETS[number];
+
+function attachmentPath(attachment: Attachment): string {
+  const filename = path.basename(attachment.filename).replace(/[^\w.\- ]/g, "_") || "file";
+  return `attachments/${attachment.id}/${filename}`;
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2) + "\n";
+}
+
+// Write everything the user owns as a zip: the profile, one JSON and one CSV
+// file per record type, and attachment files. Sessions, API tokens and 2FA
+// secrets are credentials rather than data and are left out.
+export async function writeUserArchive(storage: IStorage, store: AttachmentStore, user: User, output: Writable): Promise<void> {
+  const [trades, collections, tags, importProfiles] = await Promise.all([
+    storage.getUserTrades(user.id),
+    storage.getUserCollections(user.id),
+    storage.getUserTags(user.id),
+    storage.getUserImportProfiles(user.id),
+  ]);
+
+  const executions: Execution[] = [];
+  const attachments: Attachment[] = [];
+  for (const trade of trades) {
+    executions.push(...(await storage.getTradeExecutions(trade.id)));
+    attachments.push(...(await storage.getTradeAttachments(trade.id)));
+  }
+
+  const zip = new ZipWriter(output);
+  const missingAttachments: number[] = [];
+  const archivedAttachments: ArchivedAttachment[] = [];
+
+  for (const attachment of attachments) {
+    const { storageKey, ...metadata } = attachment;
+    let file: string | null = attachmentPath(attachment);
+
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of await store.createReadStream(storageKey)) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      }
+      await zip.addFile(file, Buffer.concat(chunks), attachment.createdAt);
+    } catch (error) {
+      console.error(`Attachment ${attachment.id} could not be exported:`, error);
+      missingAttachments.push(attachment.id);
+      file = null;
+    }
+    archivedAttachments.push({ ...metadata, file });
+  }
+
+  const datasets: Record<Dataset, Record<string, unknown>[]> = {
+    trades,
+    collections,
+    tags,
+    executions,
+    attachments: archivedAttachments,
+    "import-profiles": importProfiles,
+  };
+
+  for (const name of DATASETS) {
+    await zip.addFile(`${name}.json`, toJson(datasets[name]));
+    await zip.addFile(`${name}.csv`, formatCsv(datasets[name]));
+  }
+  await zip.addFile("profile.json", toJson(toPublicUser(user)));
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    counts: Object.fromEntries(DATASETS.map((name) => [name, datasets[name].length])),
+    missingAttachments,
+  };
+  await zip.addFile("manifest.json", toJson(manifest));
+  await zip.finish();
+}
+
+const manifestSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int(),
+  counts: z.record(z.number().int().nonnegative()),
+  missingAttachments: z.array(z.number().int()),
+});
+
+// The records an archive will create, as its manifest declares them
+export interface ArchiveCounts {
+  trades: number;
+  collections: number;
+  attachments: number;
+}
+
+const archivedIdSchema = z.object({ id: z.number().int() });
+
+// Trade fields that the insert schemas don't cover but that are worth keeping
+const archivedTradeSchema = z.object({
+  id: z.number().int(),
+  collectionId: z.number().int().nullish(),
+  tagIds: z.array(z.number().int()).default([]),
+  commissionSchedule: z.string().nullish(),
+  matchingMethod: z.enum(matchingMethods).optional(),
+  openQuantity: z.coerce.number().nullish(),
+  realizedPnl: z.coerce.number().nullish(),
+});
+
+const archivedAttachmentSchema = z.object({
+  id: z.number().int(),
+  tradeId: z.number().int(),
+  filename: z.string().min(1),
+  contentType: z.string(),
+  file: z.string().nullable(),
+});
+
+const profileSettingsSchema = z.object({
+  baseCurrency: currencySchema.nullish(),
+  commissionSchedules: commissionSchedulesSchema.nullish(),
+});
+
+// A validated archive, with records still keyed by their exported ids
+export interface UserArchive {
+  settings: z.infer<typeof profileSettingsSchema>;
+  collections: { id: number; data: InsertCollection }[];
+  tags: { id: number; data: InsertTag }[];
+  trades: { id: number; collectionId: number | null; tagIds: number[]; data: InsertTrade }[];
+  executions: { tradeId: number; data: InsertExecution }[];
+  attachments: { tradeId: number; filename: string; contentType: string; data: Buffer }[];
+  importProfiles: InsertImportProfile[];
+}
+
+function readJson(files: Map<string, Buffer>, name: string, required = true): unknown {
+  const file = files.get(name);
+  if (!file) {
+    if (required) throw new ArchiveError(`Archive is missing ${name}`);
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(file.toString("utf-8"));
+  } catch {
+    throw new ArchiveError(`${name} is not valid JSON`);
+  }
+}
+
+function readRecords(files: Map<string, Buffer>, name: string): Record<string, unknown>[] {
+  const records = readJson(files, name, false) ?? [];
+  if (!Array.isArray(records) || records.some((record) => !record || typeof record !== "object")) {
+    throw new ArchiveError(`${name} must contain an array of records`);
+  }
+  return records;
+}
+
+// Validate one record against its insert schema, or fail the whole restore
+function parseRecord<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, record: unknown, name: string, index: number): T {
+  const validateResult = schema.safeParse(record);
+  if (!validateResult.success) {
+    throw new ArchiveError(`Invalid record ${index} in ${name}`, toFieldErrors(validateResult.error));
+  }
+  return validateResult.data;
+}
+
+function reviveDate(value: unknown): unknown {
+  return typeof value === "string" ? new Date(value) : value;
+}
+
+function parseManifest(files: Map<string, Buffer>): z.infer<typeof manifestSchema> {
+  const manifest = manifestSchema.safeParse(readJson(files, "manifest.json"));
+  if (!manifest.success) {
+    throw new ArchiveError("Not a trade journal export");
+  }
+  if (manifest.data.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(`Archive version ${manifest.data.version} is newer than this server supports`);
+  }
+  return manifest.data;
+}
+
+function manifestCounts(manifest: z.infer<typeof manifestSchema>): ArchiveCounts {
+  const { counts, missingAttachments } = manifest;
+  return {
+    trades: counts.trades ?? 0,
+    collections: counts.collections ?? 0,
+    attachments: Math.max((counts.attachments ?? 0) - missingAttachments.length, 0),
+  };
+}
+
+// Read just the manifest, so quotas can be checked before anything else in
+// the archive is inflated
+export async function readArchiveCounts(archive: Buffer): Promise<ArchiveCounts> {
+  return manifestCounts(parseManifest(await readZip(archive, MAX_MANIFEST_SIZE, (name) => name === "manifest.json")));
+}
+
+// Inflate the files a restore uses, allowing only as much as the manifest's
+// counts need, and parse them
+export async function readUserArchive(archive: Buffer, counts: ArchiveCounts, userId: number): Promise<UserArchive> {
+  const limit = MAX_ARCHIVE_DATA + counts.attachments * MAX_ATTACHMENT_SIZE;
+  const files = await readZip(archive, limit, (name) => name.startsWith("attachments/") || name.endsWith(".json"));
+  return parseUserArchive(files, userId);
+}
+
+// Check an extracted archive and turn its records into inserts for the
+// given user. Nothing is written, so a bad archive leaves the account alone.
+export function parseUserArchive(files: Map<string, Buffer>, userId: number): UserArchive {
+  const counts = manifestCounts(parseManifest(files));
+
+  const profile = readJson(files, "profile.json", false) ?? {};
+  const settings = parseRecord(profileSettingsSchema, profile, "profile.json", 0);
+
+  const collections = readRecords(files, "collections.json").map((record, index) => ({
+    id: parseRecord(archivedIdSchema, record, "collections.json", index).id,
+    data: parseRecord(insertCollectionSchema, { ...record, userId }, "collections.json", index),
+  }));
+
+  const tags = readRecords(files, "tags.json").map((record, index) => ({
+    id: parseRecord(archivedIdSchema, record, "tags.json", index).id,
+    data: parseRecord(insertTagSchema, { ...record, userId }, "tags.json", index),
+  }));
+
+  const tradeSchema = insertTradeSchema
+    .extend({ currency: currencySchema.default(DEFAULT_CURRENCY) })
+    .merge(tradeFeesSchema);
+
+  const trades = readRecords(files, "trades.json").map((record, index) => {
+    const { id, collectionId, tagIds, ...extra } = parseRecord(archivedTradeSchema, record, "trades.json", index);
+    const instrument = parseRecord(tradeInstrumentSchema, record, "trades.json", index);
+    const trade = parseRecord(
+      tradeSchema,
+      { ...record, entryDate: reviveDate(record.entryDate), exitDate: reviveDate(record.exitDate), collectionId: null, userId },
+      "trades.json",
+      index
+    );
+
+    return {
+      id,
+      collectionId: collectionId ?? null,
+      tagIds,
+      data: { ...trade, ...instrument, ...extra } as InsertTrade,
+    };
+  });
+
+  const executions = readRecords(files, "executions.json").map((record, index) => {
+    const tradeId = parseRecord(archivedIdSchema.extend({ tradeId: z.number().int() }), record, "executions.json", index).tradeId;
+    return { tradeId, data: parseRecord(insertExecutionSchema, record, "executions.json", index) };
+  });
+
+  const attachments: UserArchive["attachments"] = [];
+  readRecords(files, "attachments.json").forEach((record, index) => {
+    const attachment = parseRecord(archivedAttachmentSchema, record, "attachments.json", index);
+    // Attachments that were missing at export time have no file to restore
+    if (attachment.file === null) return;
+
+    const data = files.get(attachment.file);
+    if (!data) {
+      throw new ArchiveError(`Archive is missing ${attachment.file}`);
+    }
+    const contentType = imageContentType(data);
+    if (!contentType || data.length > MAX_ATTACHMENT_SIZE) {
+      throw new ArchiveError(`Attachment ${attachment.file} is not an allowed image`);
+    }
+    attachments.push({ tradeId: attachment.tradeId, filename: attachment.filename, contentType, data });
+  });
+
+  const importProfiles = readRecords(files, "import-profiles.json").map((record, index) =>
+    parseRecord(insertImportProfileSchema, { ...record, userId }, "import-profiles.json", index)
+  );
+
+  // Quotas were checked against the manifest, so it has to be truthful
+  const parsed: ArchiveCounts = { trades: trades.length, collections: collections.length, attachments: attachments.length };
+  const extra = (Object.keys(parsed) as (keyof ArchiveCounts)[]).find((name) => parsed[name] > counts[name]);
+  if (extra) {
+    throw new ArchiveError(`Archive contains more ${extra} than its manifest lists`);
+  }
+
+  const tradeIds = new Set(trades.map((trade) => trade.id));
+  const orphan = [...executions, ...attachments].find((child) => !tradeIds.has(child.tradeId));
+  if (orphan) {
+    throw new ArchiveError(`Archive references trade ${orphan.tradeId}, which it doesn't contain`);
+  }
+
+  return { settings, collections, tags, trades, executions, attachments, importProfiles };
+}
+
+export interface RestoreResult {
+  collections: number;
+  tags: number;
+  trades: number;
+  executions: number;
+  attachments: number;
+  importProfiles: number;
+}
+
+// Create the archive's records for a user. Every record gets a new id from
+// the storage backend; references between records are remapped to match.
+// On failure the records created so far are removed again.
+export async function restoreUserArchive(
+  storage: IStorage,
+  store: AttachmentStore,
+  userId: number,
+  archive: UserArchive
+): Promise<RestoreResult> {
+  const created = {
+    collections: [] as Collection[],
+    tags: [] as Tag[],
+    trades: [] as Trade[],
+    importProfiles: [] as ImportProfile[],
+  };
+  let executions = 0;
+  let attachments = 0;
+
+  try {
+    const collectionIds = new Map<number, number>();
+    for (const { id, data } of archive.collections) {
+      const collection = await storage.createCollection(data);
+      created.collections.push(collection);
+      collectionIds.set(id, collection.id);
+    }
+
+    const tagIds = new Map<number, number>();
+    for (const { id, data } of archive.tags) {
+      const tag = await storage.createTag(data);
+      created.tags.push(tag);
+      tagIds.set(id, tag.id);
+    }
+
+    const tradeIds = new Map<number, number>();
+    for (const trade of archive.trades) {
+      // References to records that weren't in the archive are dropped
+      const collectionId = trade.collectionId !== null ? collectionIds.get(trade.collectionId) ?? null : null;
+      const tradeTags = trade.tagIds.map((id) => tagIds.get(id)).filter((id): id is number => id !== undefined);
+
+      let createdTrade = await storage.createTrade({ ...trade.data, collectionId } as InsertTrade);
+      created.trades.push(createdTrade);
+      if (tradeTags.length) {
+        createdTrade = await storage.setTradeTags(createdTrade.id, tradeTags);
+      }
+      tradeIds.set(trade.id, createdTrade.id);
+    }
+
+    for (const { tradeId, data } of archive.executions) {
+      await storage.createExecution({ ...data, tradeId: tradeIds.get(tradeId)! });
+      executions++;
+    }
+
+    for (const attachment of archive.attachments) {
+      await saveAttachment(storage, store, {
+        tradeId: tradeIds.get(attachment.tradeId)!,
+        userId,
+        originalname: attachment.filename,
+        buffer: attachment.data,
+      });
+      attachments++;
+    }
+
+    for (const profile of archive.importProfiles) {
+      created.importProfiles.push(await storage.createImportProfile(profile));
+    }
+
+    if (archive.settings.baseCurrency) {
+      await storage.updateUserBaseCurrency(userId, archive.settings.baseCurrency);
+    }
+    if (archive.settings.commissionSchedules) {
+      await storage.updateUserCommissionSchedules(userId, archive.settings.commissionSchedules);
+    }
+  } catch (error) {
+    await removeRestoredRecords(storage, store, created);
+    throw error;
+  }
+
+  return {
+    collections: created.collections.length,
+    tags: created.tags.length,
+    trades: created.trades.length,
+    executions,
+    attachments,
+    importProfiles: created.importProfiles.length,
+  };
+}
+
+async function removeRestoredRecords(
+  storage: IStorage,
+  store: AttachmentStore,
+  created: { collections: Collection[]; tags: Tag[]; trades: Trade[]; importProfiles: ImportProfile[] }
+): Promise<void> {
+  try {
+    // Deleting a trade also removes its executions and attachments
+    for (const trade of created.trades) await deleteTradeWithAttachments(storage, store, trade.id);
+    for (const collection of created.collections) await storage.deleteCollection(collection.id);
+    for (const tag of created.tags) await storage.deleteTag(tag.id);
+    for (const profile of created.importProfiles) await storage.deleteImportProfile(profile.id);
+  } catch (error) {
+    console.error("Error removing partially restored archive:", error);
+  }
+}
+
+// An account can only be restored into while it holds no journal data, so
+// a restore never mixes with or duplicates existing records
+export async function isEmptyAccount(storage: IStorage, userId: number): Promise<boolean> {
+  const [trades, collections, tags] = await Promise.all([
+    storage.countUserTrades(userId),
+    storage.getUserCollections(userId),
+    storage.getUserTags(userId),
+  ]);
+  return trades === 0 && collections.length === 0 && tags.length === 0;
+}
@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { imageContentType } from "./attachments";
+
+function bytes(...parts: (number[] | string)[]): Buffer {
+  return Buffer.concat(parts.map((part) => (typeof part === "string" ? Buffer.from(part, "latin1") : Buffer.from(part))));
+}
+
+test("images are recognised by their content", () => {
+  assert.equal(imageContentType(bytes([0x89], "PNG\r\n\x1a\n", [0, 0, 0, 13])), "image/png");
+  assert.equal(imageContentType(bytes([0xff, 0xd8, 0xff, 0xe0])), "image/jpeg");
+  assert.equal(imageContentType(bytes("GIF89a")), "image/gif");
+  assert.equal(imageContentType(bytes("RIFF", [0x24, 0, 0, 0], "WEBPVP8 ")), "image/webp");
+});
+
+test("files that only claim to be images are rejected", () => {
+  assert.equal(imageContentType(bytes("<svg xmlns=\"http://www.w3.org/2000/svg\"></svg>")), undefined);
+  assert.equal(imageContentType(bytes("<html><script>alert(1)</script></html>")), undefined);
+  assert.equal(imageContentType(bytes("RIFF", [0x24, 0, 0, 0], "WAVEfmt ")), undefined);
+  assert.equal(imageContentType(bytes("XXXX", [0x24, 0, 0, 0], "WEBP")), undefined);
+  assert.equal(imageContentType(Buffer.alloc(0)), undefined);
+});
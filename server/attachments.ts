@@ -0,0 +1,130 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Readable } from "stream";
+import type { IStorage } from "./storage";
+import { BadRequestError } from "./errors";
+
+export interface InsertAttachment {
+  tradeId: number;
+  userId: number;
+  filename: string;
+  contentType: string;
+  size: number;
+  storageKey: string;
+}
+
+export type Attachment = InsertAttachment & { id: number; createdAt: Date };
+
+export const ALLOWED_ATTACHMENT_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// Leading bytes of each allowed image format. WebP is a RIFF container with
+// "WEBP" at offset 8.
+const IMAGE_SIGNATURES: { contentType: string; offset: number; bytes: number[] }[] = [
+  { contentType: "image/png", offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { contentType: "image/jpeg", offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { contentType: "image/gif", offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { contentType: "image/webp", offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+];
+
+// The allowed image type the file's content actually is. The type a client
+// declares is ignored, since it decides how browsers treat the file.
+export function imageContentType(data: Buffer): string | undefined {
+  const match = IMAGE_SIGNATURES.find(({ offset, bytes }) =>
+    bytes.every((byte, index) => data[offset + index] === byte) &&
+    (offset === 0 || data.subarray(0, 4).toString("latin1") === "RIFF")
+  );
+  return match?.contentType;
+}
+
+// Where attachment bytes live. Metadata is kept in IStorage.
+export interface AttachmentStore {
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  createReadStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+// Keeps attachments on the local filesystem, for self-hosting without a bucket
+export class LocalAttachmentStore implements AttachmentStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error("Invalid attachment key");
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async createReadStream(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    await fs.promises.access(filePath);
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+export const attachmentStore: AttachmentStore = new LocalAttachmentStore(
+  process.env.ATTACHMENTS_DIR || "data/attachments"
+);
+
+export function attachmentKey(userId: number, tradeId: number, filename: string): string {
+  const extension = path.extname(filename).toLowerCase().replace(/[^.a-z0-9]/g, "");
+  return `${userId}/${tradeId}/${randomUUID()}${extension}`;
+}
+
+export async function saveAttachment(
+  storage: IStorage,
+  store: AttachmentStore,
+  file: { tradeId: number; userId: number; originalname: string; buffer: Buffer }
+): Promise<Attachment> {
+  const contentType = imageContentType(file.buffer);
+  if (!contentType) {
+    throw new BadRequestError(`${path.basename(file.originalname)} is not a PNG, JPEG, GIF or WebP image`);
+  }
+
+  const storageKey = attachmentKey(file.userId, file.tradeId, file.originalname);
+  await store.save(storageKey, file.buffer, contentType);
+
+  try {
+    return await storage.createAttachment({
+      tradeId: file.tradeId,
+      userId: file.userId,
+      filename: path.basename(file.originalname),
+      contentType,
+      size: file.buffer.length,
+      storageKey,
+    });
+  } catch (error) {
+    // Don't leave orphaned files behind if the metadata could not be written
+    await store.delete(storageKey);
+    throw error;
+  }
+}
+
+export async function deleteAttachment(storage: IStorage, store: AttachmentStore, attachment: Attachment): Promise<boolean> {
+  await store.delete(attachment.storageKey);
+  return storage.deleteAttachment(attachment.tradeId, attachment.id);
+}
+
+// Delete a trade together with its attachment files. storage.deleteTrade
+// removes the attachment records, the files have to go first.
+export async function deleteTradeWithAttachments(storage: IStorage, store: AttachmentStore, tradeId: number): Promise<boolean> {
+  const attachments = await storage.getTradeAttachments(tradeId);
+  await Promise.all(attachments.map((attachment) => store.delete(attachment.storageKey)));
+  return storage.deleteTrade(tradeId);
+}
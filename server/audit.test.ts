@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffRecords, restoreUpdate, withVersions, type AuditAction, type AuditEntry } from "./audit";
+
+// The audit history of a record that went through the given states in turn
+function history(states: [AuditAction, object | null][]) {
+  const entries: AuditEntry[] = [];
+  let previous: object | null = null;
+  for (const [action, state] of states) {
+    entries.push({
+      id: entries.length + 1,
+      entityType: "trade",
+      entityId: 1,
+      userId: 1,
+      apiTokenId: null,
+      action,
+      changes: diffRecords(previous, state),
+      restoredVersion: null,
+      createdAt: new Date(),
+    });
+    previous = state;
+  }
+  return withVersions(entries);
+}
+
+const created = { id: 1, userId: 1, symbol: "AAPL", quantity: 10, notes: null, entryDate: new Date("2024-01-02T14:30:00Z") };
+const edited = { ...created, quantity: 20, notes: "scaled in" };
+const redated = { ...edited, entryDate: new Date("2024-01-03T14:30:00Z"), exitPrice: 110 };
+
+test("later changes are undone to get back to a version", () => {
+  const entries = history([["create", created], ["update", edited], ["update", redated]]);
+
+  assert.deepEqual(restoreUpdate(redated, entries, 1), {
+    quantity: 10,
+    notes: null,
+    entryDate: new Date("2024-01-02T14:30:00Z"),
+    exitPrice: null,
+  });
+  assert.deepEqual(restoreUpdate(redated, entries, 2), { entryDate: new Date("2024-01-02T14:30:00Z"), exitPrice: null });
+  assert.deepEqual(restoreUpdate(redated, entries, 3), {});
+});
+
+test("fields that already have the restored value are left out", () => {
+  const entries = history([["create", created], ["update", edited], ["update", { ...edited, quantity: 10 }]]);
+
+  // Quantity went back to 10 on its own; only notes still differ
+  assert.deepEqual(restoreUpdate({ ...edited, quantity: 10 }, entries, 1), { notes: null });
+});
+
+test("restoring never moves a record in or out of the trash", () => {
+  const trashed = { ...edited, deletedAt: new Date("2024-02-01T00:00:00Z") };
+  const entries = history([["create", created], ["update", edited], ["delete", trashed]]);
+
+  assert.deepEqual(restoreUpdate(trashed, entries, 1), { quantity: 10, notes: null });
+});
@@ -0,0 +1,129 @@
+import type { IStorage } from "./storage";
+
+export const auditEntityTypes = ["trade", "collection"] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+// Deletes move records to the trash, purges remove them for good
+export type AuditAction = "create" | "update" | "delete" | "restore" | "purge";
+
+// Values are stored as JSON, dates as ISO strings
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface InsertAuditEntry {
+  entityType: AuditEntityType;
+  entityId: number;
+  // Owner of the record, who is also the only one allowed to change it
+  userId: number;
+  // Set when the change was made with an API token rather than a session
+  apiTokenId: number | null;
+  action: AuditAction;
+  changes: FieldChange[];
+  restoredVersion: number | null;
+}
+
+export type AuditEntry = InsertAuditEntry & { id: number; createdAt: Date };
+
+// Entries are numbered from 1 in the order they were recorded
+export type VersionedAuditEntry = AuditEntry & { version: number };
+
+export interface AuditActor {
+  userId: number;
+  apiTokenId: number | null;
+}
+
+// Bookkeeping fields, and fields derived from others on every write
+const IGNORED_FIELDS = new Set(["id", "userId", "createdAt", "outcome"]);
+
+// Fields restored as Dates rather than the strings they are stored as
+const DATE_FIELDS = new Set(["entryDate", "exitDate"]);
+
+// Going back to a version never moves a record in or out of the trash
+const UNRESTORED_FIELDS = new Set(["deletedAt"]);
+
+function normalize(value: unknown): unknown {
+  if (value === undefined) return null;
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Field-level differences between two versions of a record. Either side can
+// be null for a create or a purge.
+export function diffRecords(before: object | null, after: object | null): FieldChange[] {
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const previous = normalize(from[field]);
+    const next = normalize(to[field]);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({ field, from: previous, to: next });
+    }
+  }
+  return changes;
+}
+
+export function withVersions(entries: AuditEntry[]): VersionedAuditEntry[] {
+  return [...entries]
+    .sort((a, b) => a.id - b.id)
+    .map((entry, index) => ({ ...entry, version: index + 1 }));
+}
+
+// Fields to write to bring a record back to how it was right after the given
+// version. Later changes are undone newest first. Fields that no recorded
+// change touched keep their current value.
+export function restoreUpdate(
+  current: object,
+  history: VersionedAuditEntry[],
+  version: number
+): Record<string, unknown> {
+  const restored: Record<string, unknown> = {};
+  const later = history.filter((entry) => entry.version > version).reverse();
+
+  for (const entry of later) {
+    for (const change of entry.changes) {
+      if (UNRESTORED_FIELDS.has(change.field)) continue;
+      restored[change.field] = change.from;
+    }
+  }
+
+  const currentChanges = new Set(diffRecords(current, { ...current, ...restored }).map((change) => change.field));
+  const update: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(restored)) {
+    if (!currentChanges.has(field)) continue;
+    update[field] = DATE_FIELDS.has(field) && typeof value === "string" ? new Date(value) : value;
+  }
+  return update;
+}
+
+// Record a change to a trade or collection. Updates that changed nothing
+// are not recorded.
+export async function recordChange(
+  storage: IStorage,
+  actor: AuditActor,
+  entityType: AuditEntityType,
+  entityId: number,
+  action: AuditAction,
+  before: object | null,
+  after: object | null,
+  restoredVersion: number | null = null
+): Promise<AuditEntry | undefined> {
+  const changes = diffRecords(before, after);
+  if (changes.length === 0 && (action === "update" || action === "restore")) return undefined;
+
+  return storage.createAuditEntry({
+    entityType,
+    entityId,
+    userId: actor.userId,
+    apiTokenId: actor.apiTokenId,
+    action,
+    changes,
+    restoredVersion,
+  });
+}
@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import type Stripe from "stripe";
+import type { User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { clearSubscription, handleStripeEvent, type BillingUser } from "./billing";
+
+function fixture(name: string): Stripe.Event {
+  return JSON.parse(fs.readFileSync(path.join(import.meta.dirname, "fixtures", "stripe", `${name}.json`), "utf-8"));
+}
+
+// Just the user methods the webhook handler calls, over a single user
+function billingStorage(initial: Partial<BillingUser>) {
+  let user = { id: 1, email: "trader@example.com", planType: "free", ...initial } as BillingUser;
+  const storage = {
+    getUserByStripeCustomerId: async (customerId: string) => (user.stripeCustomerId === customerId ? user : undefined),
+    updateUserStripeInfo: async (_id: number, info: { customerId: string; subscriptionId: string }) =>
+      (user = { ...user, stripeCustomerId: info.customerId, stripeSubscriptionId: info.subscriptionId }),
+    updateUserSubscription: async (_id: number, state: Partial<BillingUser>) => (user = { ...user, ...state }),
+    updateUserPlan: async (_id: number, planType: string) => (user = { ...user, planType }),
+  } as unknown as IStorage;
+  return { storage, user: () => user as BillingUser & User };
+}
+
+const subscribed = { stripeCustomerId: "cus_1", stripeSubscriptionId: "sub_1", planType: "basic" };
+
+test("invoice.paid for the current subscription grants its plan", async () => {
+  const { storage, user } = billingStorage(subscribed);
+  await handleStripeEvent(storage, fixture("invoice.paid"));
+
+  assert.equal(user().planType, "pro");
+  assert.equal(user().subscriptionStatus, "active");
+  assert.deepEqual(user().subscriptionPeriodEnd, new Date(1706745600 * 1000));
+});
+
+test("invoice.paid reads the subscription and price from older API versions", async () => {
+  const { storage, user } = billingStorage({ ...subscribed, planType: "free" });
+  await handleStripeEvent(storage, fixture("invoice.paid.legacy"));
+
+  assert.equal(user().planType, "basic");
+  assert.equal(user().subscriptionStatus, "active");
+});
+
+test("invoice.paid for a replaced subscription is ignored", async () => {
+  const { storage, user } = billingStorage({ ...subscribed, stripeSubscriptionId: "sub_2" });
+  await handleStripeEvent(storage, fixture("invoice.paid"));
+
+  assert.equal(user().planType, "basic");
+  assert.equal(user().subscriptionStatus, undefined);
+});
+
+test("a late invoice.paid after cancellation doesn't restore the plan", async () => {
+  const { storage, user } = billingStorage(subscribed);
+  await handleStripeEvent(storage, fixture("customer.subscription.deleted"));
+  assert.equal(user().planType, "free");
+  assert.equal(user().stripeSubscriptionId, "");
+
+  await handleStripeEvent(storage, fixture("invoice.paid"));
+  assert.equal(user().planType, "free");
+  assert.equal(user().subscriptionStatus, "canceled");
+});
+
+test("invoice.paid after the subscription was cleared for account deletion is ignored", async () => {
+  const { storage, user } = billingStorage(subscribed);
+  await clearSubscription(storage, user());
+
+  await handleStripeEvent(storage, fixture("invoice.paid"));
+  assert.equal(user().planType, "free");
+});
+
+test("invoice.payment_failed drops the user to free and keeps the period end", async () => {
+  const periodEnd = new Date("2024-02-01T00:00:00Z");
+  const { storage, user } = billingStorage({ ...subscribed, subscriptionPeriodEnd: periodEnd });
+  await handleStripeEvent(storage, fixture("invoice.payment_failed"));
+
+  assert.equal(user().planType, "free");
+  assert.equal(user().subscriptionStatus, "past_due");
+  assert.deepEqual(user().subscriptionPeriodEnd, periodEnd);
+});
+
+test("customer.subscription.updated applies the price's plan", async () => {
+  const { storage, user } = billingStorage(subscribed);
+  await handleStripeEvent(storage, fixture("customer.subscription.updated"));
+
+  assert.equal(user().planType, "pro");
+  assert.equal(user().stripeSubscriptionId, "sub_1");
+  assert.equal(user().subscriptionStatus, "active");
+});
+
+test("events for an unknown customer change nothing", async () => {
+  const { storage, user } = billingStorage({ ...subscribed, stripeCustomerId: "cus_other" });
+  const result = await handleStripeEvent(storage, fixture("invoice.paid"));
+
+  assert.equal(result, undefined);
+  assert.equal(user().planType, "basic");
+});
@@ -0,0 +1,165 @@
+import Stripe from "stripe";
+import type { User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export type PlanType = "free" | "basic" | "pro";
+
+// Subscription state mirrored from Stripe onto the user
+export interface SubscriptionState {
+  subscriptionStatus: Stripe.Subscription.Status | null;
+  subscriptionPeriodEnd: Date | null;
+}
+
+export type BillingUser = User & Partial<SubscriptionState>;
+
+// Statuses that entitle the user to the plan they subscribed to
+const ENTITLED_STATUSES: Stripe.Subscription.Status[] = ["active", "trialing"];
+
+// Work out which plan a Stripe price grants. Explicit price ids from the
+// environment win, then a planType set in price metadata, then the old
+// convention of "pro" appearing in the price id or lookup key.
+export function planForPrice(price: Pick<Stripe.Price, "id" | "lookup_key" | "metadata"> | string | null | undefined): PlanType {
+  if (!price) return "free";
+
+  const priceId = typeof price === "string" ? price : price.id;
+  if (priceId === process.env.STRIPE_PRO_PRICE_ID) return "pro";
+  if (priceId === process.env.STRIPE_BASIC_PRICE_ID) return "basic";
+
+  if (typeof price !== "string") {
+    const metadataPlan = price.metadata?.planType;
+    if (metadataPlan === "pro" || metadataPlan === "basic") return metadataPlan;
+  }
+
+  const lookupKey = typeof price === "string" ? "" : price.lookup_key ?? "";
+  return `${priceId} ${lookupKey}`.includes("pro") ? "pro" : "basic";
+}
+
+// Fields Stripe moved between API versions. Webhooks are sent in the
+// account's API version, which can be older or newer than the SDK's types.
+type VersionedSubscription = Stripe.Subscription & { current_period_end?: number };
+type VersionedSubscriptionItem = Stripe.SubscriptionItem & { current_period_end?: number };
+type VersionedInvoice = Stripe.Invoice & {
+  subscription?: string | Stripe.Subscription | null;
+  parent?: { subscription_details?: { subscription?: string | Stripe.Subscription | null } | null } | null;
+};
+type VersionedInvoiceLine = Stripe.InvoiceLineItem & {
+  price?: Stripe.Price | null;
+  pricing?: { price_details?: { price?: Stripe.Price | string | null } | null } | null;
+};
+
+// Current period end moved from the subscription onto its items in newer
+// API versions, read whichever is present
+function subscriptionPeriodEnd(subscription: VersionedSubscription): Date | null {
+  const item: VersionedSubscriptionItem | undefined = subscription.items?.data?.[0];
+  const periodEnd = item?.current_period_end ?? subscription.current_period_end;
+  return typeof periodEnd === "number" ? new Date(periodEnd * 1000) : null;
+}
+
+function customerId(customer: string | Stripe.Customer | Stripe.DeletedCustomer | null): string | null {
+  if (!customer) return null;
+  return typeof customer === "string" ? customer : customer.id;
+}
+
+// Price of the first subscription line on an invoice, across API versions
+function invoicePrice(invoice: Stripe.Invoice): Stripe.Price | string | null {
+  const line: VersionedInvoiceLine | undefined = invoice.lines?.data?.[0];
+  return line?.pricing?.price_details?.price ?? line?.price ?? null;
+}
+
+// Subscription an invoice belongs to, across API versions
+function invoiceSubscriptionId(invoice: VersionedInvoice): string | null {
+  const subscription = invoice.parent?.subscription_details?.subscription ?? invoice.subscription;
+  if (!subscription) return null;
+  return typeof subscription === "string" ? subscription : subscription.id;
+}
+
+async function findCustomerUser(storage: IStorage, customer: string | Stripe.Customer | Stripe.DeletedCustomer | null): Promise<User | undefined> {
+  const id = customerId(customer);
+  return id ? storage.getUserByStripeCustomerId(id) : undefined;
+}
+
+async function applySubscription(storage: IStorage, user: User, subscription: Stripe.Subscription): Promise<User> {
+  const entitled = ENTITLED_STATUSES.includes(subscription.status);
+  const planType = entitled ? planForPrice(subscription.items.data[0]?.price) : "free";
+
+  await storage.updateUserStripeInfo(user.id, {
+    customerId: customerId(subscription.customer) ?? user.stripeCustomerId ?? "",
+    subscriptionId: subscription.status === "canceled" ? "" : subscription.id
+  });
+  await storage.updateUserSubscription(user.id, {
+    subscriptionStatus: subscription.status,
+    subscriptionPeriodEnd: subscriptionPeriodEnd(subscription)
+  });
+  return storage.updateUserPlan(user.id, planType);
+}
+
+// Apply a verified Stripe event to the matching user. Returns the updated user,
+// or undefined when the event is not one we handle or matches no user.
+export async function handleStripeEvent(storage: IStorage, event: Stripe.Event): Promise<User | undefined> {
+  switch (event.type) {
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted": {
+      const subscription = event.data.object;
+      const user = await findCustomerUser(storage, subscription.customer);
+      if (!user) return undefined;
+
+      // A deleted subscription can still report its last status, treat it as canceled
+      const status = event.type === "customer.subscription.deleted" ? "canceled" : subscription.status;
+      return applySubscription(storage, user, { ...subscription, status });
+    }
+
+    case "invoice.payment_failed":
+    case "invoice.paid": {
+      const invoice = event.data.object;
+      const user = await findCustomerUser(storage, invoice.customer);
+      if (!user) return undefined;
+
+      // Only invoices for the user's current subscription count. One-off
+      // invoices, and late or retried ones for a subscription that was since
+      // replaced or canceled, would otherwise give back a plan that ended.
+      const subscriptionId = invoiceSubscriptionId(invoice);
+      if (!subscriptionId || !user.stripeSubscriptionId || subscriptionId !== user.stripeSubscriptionId) {
+        return user;
+      }
+
+      const paid = event.type === "invoice.paid";
+      const periodEnd = invoice.lines?.data?.[0]?.period?.end;
+      await storage.updateUserSubscription(user.id, {
+        subscriptionStatus: paid ? "active" : "past_due",
+        subscriptionPeriodEnd: paid && periodEnd ? new Date(periodEnd * 1000) : (user as BillingUser).subscriptionPeriodEnd ?? null
+      });
+      return storage.updateUserPlan(user.id, paid ? planForPrice(invoicePrice(invoice)) : "free");
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+// Verify the signature on a webhook payload and parse it. Throws
+// Stripe.errors.StripeSignatureVerificationError when the signature is bad.
+export function constructStripeEvent(stripe: Stripe, payload: Buffer | string, signature: string, secret: string): Stripe.Event {
+  return stripe.webhooks.constructEvent(payload, signature, secret);
+}
+
+// Forget the user's subscription and drop them to the free plan, without
+// waiting for Stripe's webhook, so invoices for it no longer apply
+export async function clearSubscription(storage: IStorage, user: User): Promise<User> {
+  await storage.updateUserStripeInfo(user.id, { customerId: user.stripeCustomerId ?? "", subscriptionId: "" });
+  await storage.updateUserSubscription(user.id, { subscriptionStatus: "canceled", subscriptionPeriodEnd: null });
+  return storage.updateUserPlan(user.id, "free");
+}
+
+// Cancel the user's subscription immediately. A subscription Stripe no longer
+// knows about counts as canceled. Returns false when there was none to cancel.
+export async function cancelStripeSubscription(stripe: Stripe, user: User): Promise<boolean> {
+  if (!user.stripeSubscriptionId) return false;
+
+  try {
+    await stripe.subscriptions.cancel(user.stripeSubscriptionId);
+    return true;
+  } catch (error: any) {
+    if (error?.code === "resource_missing") return false;
+    throw error;
+  }
+}
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { InsertTrade, Trade } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { applyBulkTradeRequest, bulkTradeSchema } from "./bulk-trades";
+import { ForbiddenError, NotFoundError } from "./errors";
+
+// Just updateTrades, over a map of trades
+function tradeStorage(trades: Partial<Trade>[]) {
+  const stored = new Map(trades.map((trade) => [trade.id!, { userId: 1, ...trade } as Trade]));
+  const storage = {
+    updateTrades: async (ids: number[], update: (trades: (Trade | undefined)[]) => Partial<InsertTrade>[]) => {
+      const updates = update(ids.map((id) => stored.get(id)));
+      return ids.map((id, index) => {
+        const updatedTrade = { ...stored.get(id)!, ...updates[index] } as Trade;
+        stored.set(id, updatedTrade);
+        return updatedTrade;
+      });
+    },
+  } as unknown as IStorage;
+  return { storage, trade: (id: number) => stored.get(id) };
+}
+
+const request = (body: unknown) => bulkTradeSchema.parse(body);
+
+test("tags are added to the tags each trade has when the batch runs", async () => {
+  const { storage, trade } = tradeStorage([{ id: 1, tagIds: [1, 2] } as Partial<Trade>, { id: 2 }]);
+  const { results, previous } = await applyBulkTradeRequest(storage, 1, request({ action: "update", ids: [1, 2], fields: { addTagIds: [3], removeTagIds: [1] } }));
+
+  assert.deepEqual(results.map((result) => result.status), ["updated", "updated"]);
+  assert.deepEqual((trade(1) as any).tagIds, [2, 3]);
+  assert.deepEqual((trade(2) as any).tagIds, [3]);
+  assert.deepEqual(previous.map((trade) => trade.id), [1, 2]);
+});
+
+test("a trashed trade rejects the batch and nothing is changed", async () => {
+  const { storage, trade } = tradeStorage([{ id: 1 }, { id: 2, deletedAt: new Date() } as Partial<Trade>]);
+
+  await assert.rejects(
+    applyBulkTradeRequest(storage, 1, request({ action: "move", ids: [1, 2], collectionId: 5 })),
+    (error: NotFoundError) => {
+      assert.ok(error instanceof NotFoundError);
+      assert.deepEqual(error.toBody().results, [{ id: 1, status: "skipped" }, { id: 2, status: "not_found" }]);
+      return true;
+    }
+  );
+  assert.equal(trade(1)?.collectionId, undefined);
+});
+
+test("another user's trade rejects the batch as forbidden", async () => {
+  const { storage, trade } = tradeStorage([{ id: 1 }, { id: 2, userId: 2 }, { id: 3 }]);
+
+  await assert.rejects(
+    applyBulkTradeRequest(storage, 1, request({ action: "delete", ids: [1, 2, 3] })),
+    (error: ForbiddenError) => {
+      assert.ok(error instanceof ForbiddenError);
+      assert.deepEqual(error.toBody().results, [
+        { id: 1, status: "skipped" },
+        { id: 2, status: "forbidden" },
+        { id: 3, status: "skipped" },
+      ]);
+      return true;
+    }
+  );
+  assert.equal((trade(1) as any).deletedAt, undefined);
+});
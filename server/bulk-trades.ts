@@ -0,0 +1,150 @@
+import { z } from "zod";
+import type { InsertTrade, Trade } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { currencySchema } from "./currency";
+import { tradeFeesSchema } from "./fees";
+import { tradeTagIds } from "./tags";
+import { isTrashed } from "./trash";
+import { ForbiddenError, NotFoundError, type HttpError } from "./errors";
+
+// Firestore transactions are limited to 500 writes
+export const MAX_BULK_TRADES = 500;
+
+const tradeIdsSchema = z
+  .array(z.number().int().positive())
+  .min(1)
+  .max(MAX_BULK_TRADES)
+  .transform((ids) => Array.from(new Set(ids)));
+
+const tagIdsSchema = z
+  .array(z.number().int())
+  .max(50)
+  .transform((ids) => Array.from(new Set(ids)));
+
+// Fields that make sense to set on many trades at once. Prices, sizes and
+// instruments differ from trade to trade, and commission follows executions
+// or a schedule on many trades, so those are edited one trade at a time.
+export const bulkTradeFieldsSchema = tradeFeesSchema
+  .omit({ commission: true })
+  .extend({
+    currency: currencySchema.optional(),
+    notes: z.string().nullable().optional(),
+    tagIds: tagIdsSchema.optional(),
+    addTagIds: tagIdsSchema.optional(),
+    removeTagIds: tagIdsSchema.optional(),
+  })
+  .strict()
+  .refine((fields) => Object.values(fields).some((value) => value !== undefined), {
+    message: "No fields to update",
+  })
+  .refine((fields) => fields.tagIds === undefined || (fields.addTagIds === undefined && fields.removeTagIds === undefined), {
+    message: "tagIds replaces a trade's tags and can't be combined with addTagIds or removeTagIds",
+    path: ["tagIds"],
+  });
+
+export const bulkTradeSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("update"), ids: tradeIdsSchema, fields: bulkTradeFieldsSchema }),
+  // A null collection takes the trades out of their collections
+  z.object({ action: z.literal("move"), ids: tradeIdsSchema, collectionId: z.number().int().positive().nullable() }),
+  // Deleted trades go to the trash
+  z.object({ action: z.literal("delete"), ids: tradeIdsSchema }),
+]);
+
+export type BulkTradeRequest = z.infer<typeof bulkTradeSchema>;
+export type BulkTradeFields = z.infer<typeof bulkTradeFieldsSchema>;
+
+// Trades in a rejected batch that had nothing wrong with them are skipped
+export const bulkTradeStatuses = ["updated", "moved", "deleted", "skipped", "not_found", "forbidden"] as const;
+export type BulkTradeStatus = typeof bulkTradeStatuses[number];
+
+export interface BulkTradeResult {
+  id: number;
+  status: BulkTradeStatus;
+  trade?: Trade;
+}
+
+// Tags the batch would put on trades
+export function bulkTagIds(request: BulkTradeRequest): number[] {
+  if (request.action !== "update") return [];
+  return [...(request.fields.tagIds ?? []), ...(request.fields.addTagIds ?? [])];
+}
+
+// Trades in the batch the user can't change. Trashed trades count as
+// missing. The batch only goes ahead without failures.
+export function bulkTradeFailures(userId: number, ids: number[], trades: (Trade | undefined)[]): BulkTradeResult[] {
+  const failures: BulkTradeResult[] = [];
+  trades.forEach((trade, index) => {
+    if (!trade || isTrashed(trade)) {
+      failures.push({ id: ids[index], status: "not_found" });
+    } else if (trade.userId !== userId) {
+      failures.push({ id: ids[index], status: "forbidden" });
+    }
+  });
+  return failures;
+}
+
+// The error for a rejected batch, with a result for every id in the order
+// they were given
+export function rejectedBatch(ids: number[], failures: BulkTradeResult[]): HttpError {
+  const failed = new Map(failures.map((failure) => [failure.id, failure]));
+  const results = ids.map((id) => failed.get(id) ?? { id, status: "skipped" });
+  return failures.some((failure) => failure.status === "forbidden")
+    ? new ForbiddenError("No trades were changed", { results })
+    : new NotFoundError("No trades were changed", { results });
+}
+
+function tradeUpdate(trade: Trade, request: BulkTradeRequest, now: Date): Partial<InsertTrade> {
+  switch (request.action) {
+    case "update": {
+      const { tagIds, addTagIds, removeTagIds, ...fields } = request.fields;
+      const update: Record<string, unknown> = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined)
+      );
+
+      if (tagIds !== undefined) {
+        update.tagIds = tagIds;
+      } else if (addTagIds !== undefined || removeTagIds !== undefined) {
+        const removed = new Set(removeTagIds ?? []);
+        const kept = tradeTagIds(trade).filter((id) => !removed.has(id));
+        update.tagIds = Array.from(new Set([...kept, ...(addTagIds ?? [])]));
+      }
+      return update as Partial<InsertTrade>;
+    }
+    case "move":
+      return { collectionId: request.collectionId } as Partial<InsertTrade>;
+    case "delete":
+      return { deletedAt: now } as Partial<InsertTrade>;
+  }
+}
+
+const appliedStatus: Record<BulkTradeRequest["action"], BulkTradeStatus> = {
+  update: "updated",
+  move: "moved",
+  delete: "deleted",
+};
+
+// Apply the batch in one transaction. Ownership, the trash and tag changes
+// are checked against the trades as the transaction reads them, so a trade
+// trashed or retagged meanwhile isn't overwritten. Throws rejectedBatch when
+// any trade fails, leaving all of them untouched. Trades deleted together
+// share a deletion time. previous is each trade before the change.
+export async function applyBulkTradeRequest(
+  storage: IStorage,
+  userId: number,
+  request: BulkTradeRequest
+): Promise<{ results: BulkTradeResult[]; previous: Trade[] }> {
+  const now = new Date();
+  let previous: Trade[] = [];
+  const updatedTrades = await storage.updateTrades(request.ids, (trades) => {
+    const failures = bulkTradeFailures(userId, request.ids, trades);
+    if (failures.length > 0) {
+      throw rejectedBatch(request.ids, failures);
+    }
+
+    previous = trades as Trade[];
+    return previous.map((trade) => tradeUpdate(trade, request, now));
+  });
+
+  const results = updatedTrades.map((trade) => ({ id: trade.id, status: appliedStatus[request.action], trade }));
+  return { results, previous };
+}
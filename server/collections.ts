@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { insertCollectionSchema } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Fields a collection update may change. The owner is fixed and the trash
+// has its own routes.
+export const updateCollectionSchema = insertCollectionSchema.omit({ userId: true }).partial().strict();
+
+export type UpdateCollection = z.infer<typeof updateCollectionSchema>;
+
+// Collections as the API returns them
+export const collectionRecordSchema = insertCollectionSchema.extend({
+  id: z.number().int(),
+  createdAt: z.date(),
+  deletedAt: z.date().nullish(),
+});
+
+// What happens to a collection's trades when the collection is deleted
+export const collectionDeletePolicies = ["unassign", "move", "delete"] as const;
+export type CollectionDeletePolicy = typeof collectionDeletePolicies[number];
+
+export const deleteCollectionSchema = z
+  .object({
+    trades: z.enum(collectionDeletePolicies).default("unassign"),
+    targetCollectionId: z.coerce.number().int().positive().optional(),
+  })
+  .refine((options) => options.trades !== "move" || options.targetCollectionId !== undefined, {
+    message: "targetCollectionId is required to move trades",
+    path: ["targetCollectionId"],
+  });
+
+export type DeleteCollectionOptions = z.infer<typeof deleteCollectionSchema>;
+
+export interface CollectionDeleteResult {
+  deletedAt: Date;
+  tradesMoved: number;
+  tradesDeleted: number;
+}
+
+// Move a collection to the trash after dealing with its trades. Deleted
+// trades go to the trash with it and keep their collection, so restoring
+// the collection brings them back. The caller checks that the user owns the
+// collection and the target collection.
+export async function deleteCollectionWithTrades(
+  storage: IStorage,
+  collectionId: number,
+  options: DeleteCollectionOptions
+): Promise<CollectionDeleteResult> {
+  const result: CollectionDeleteResult = { deletedAt: new Date(), tradesMoved: 0, tradesDeleted: 0 };
+
+  if (options.trades === "delete") {
+    const trades = await storage.getCollectionTrades(collectionId);
+    for (const trade of trades) {
+      await storage.setTradeDeletedAt(trade.id, result.deletedAt);
+    }
+    result.tradesDeleted = trades.length;
+  } else {
+    const targetCollectionId = options.trades === "move" ? options.targetCollectionId! : null;
+    const moved = await storage.moveCollectionTrades(collectionId, targetCollectionId);
+    if (targetCollectionId !== null) result.tradesMoved = moved;
+  }
+
+  await storage.setCollectionDeletedAt(collectionId, result.deletedAt);
+  return result;
+}
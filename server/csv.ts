@@ -0,0 +1,109 @@
+// Minimal RFC 4180 CSV parser. Handles quoted fields, escaped quotes ("")
+// and CRLF line endings, which covers the broker exports we have seen.
+export function parseCsv(input: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark, Excel likes to add one
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+// Parse a CSV with a header row into objects keyed by header name
+export function parseCsvRecords(input: string, delimiter = ","): { headers: string[]; records: Record<string, string>[] } {
+  const [headerRow, ...rows] = parseCsv(input, delimiter);
+  if (!headerRow) {
+    return { headers: [], records: [] };
+  }
+
+  const headers = headerRow.map((header) => header.trim());
+  const records = rows.map((row) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = (row[index] ?? "").trim();
+    });
+    return record;
+  });
+
+  return { headers, records };
+}
+
+function formatCsvValue(value: unknown, delimiter: string): string {
+  if (value === null || value === undefined) return "";
+
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+
+  if (text.includes(delimiter) || text.includes('"') || text.includes("\n") || text.includes("\r")) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+// Write objects as CSV with a header row. Columns are every key seen, in
+// first-seen order; nested values (arrays, objects) are written as JSON.
+export function formatCsv(records: Record<string, unknown>[], delimiter = ","): string {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    }
+  }
+
+  const lines = [headers.map((header) => formatCsvValue(header, delimiter)).join(delimiter)];
+  for (const record of records) {
+    lines.push(headers.map((header) => formatCsvValue(record[header], delimiter)).join(delimiter));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
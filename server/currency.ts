@@ -0,0 +1,256 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type { Trade, User } from "@shared/schema";
+import { parseCsvRecords } from "./csv";
+import { feeFields } from "./fees";
+
+export const DEFAULT_CURRENCY = "USD";
+
+// ISO 4217 codes, plus the 4-5 letter tickers crypto quotes use (USDT, USDC)
+export const currencySchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9]{3,5}$/, { message: "Invalid currency code" })
+  .transform((code) => code.toUpperCase());
+
+// Fields set on trades and users that @shared/schema doesn't declare
+type CurrencyTrade = Trade & { currency?: string | null };
+type CurrencyUser = User & { baseCurrency?: string | null };
+
+export function tradeCurrency(trade: Trade): string {
+  return (trade as CurrencyTrade).currency || DEFAULT_CURRENCY;
+}
+
+export function baseCurrency(user: User): string {
+  return (user as CurrencyUser).baseCurrency || DEFAULT_CURRENCY;
+}
+
+// One unit of base is worth `rate` units of quote on the given day (YYYY-MM-DD)
+export interface FxRate {
+  date: string;
+  base: string;
+  quote: string;
+  rate: number;
+}
+
+const fxRateSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Date must be YYYY-MM-DD" }),
+  base: currencySchema,
+  quote: currencySchema,
+  rate: z.coerce.number().positive(),
+});
+
+// Rates older than this are not used, a missing rate is better than a wrong one
+const MAX_RATE_AGE_DAYS = 7;
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000;
+}
+
+export class FxRateTable {
+  // Rates per "BASE/QUOTE" pair, sorted by date
+  private series = new Map<string, { date: string; rate: number }[]>();
+
+  constructor(rates: FxRate[] = []) {
+    rates.forEach((rate) => this.add(rate));
+  }
+
+  add({ date, base, quote, rate }: FxRate) {
+    const key = `${base}/${quote}`;
+    const points = this.series.get(key) ?? [];
+    const existing = points.findIndex((point) => point.date === date);
+
+    if (existing !== -1) {
+      points[existing] = { date, rate };
+    } else {
+      points.push({ date, rate });
+      points.sort((a, b) => a.date.localeCompare(b.date));
+    }
+    this.series.set(key, points);
+  }
+
+  get size(): number {
+    return Array.from(this.series.values()).reduce((sum, points) => sum + points.length, 0);
+  }
+
+  currencies(): string[] {
+    const codes = new Set<string>();
+    Array.from(this.series.keys()).forEach((key) => key.split("/").forEach((code) => codes.add(code)));
+    return Array.from(codes).sort();
+  }
+
+  // Factor that converts an amount in `from` into `to` on the given day. Uses
+  // the direct pair, its inverse, or a cross rate through a third currency.
+  rate(from: string, to: string, on: Date): number | null {
+    if (from === to) return 1;
+
+    const day = dayKey(on);
+    const direct = this.pairRate(from, to, day);
+    if (direct !== null) return direct;
+
+    for (const via of this.currencies()) {
+      if (via === from || via === to) continue;
+      const first = this.pairRate(from, via, day);
+      const second = first !== null ? this.pairRate(via, to, day) : null;
+      if (first !== null && second !== null) return first * second;
+    }
+
+    return null;
+  }
+
+  private pairRate(from: string, to: string, day: string): number | null {
+    const direct = this.lookup(`${from}/${to}`, day);
+    if (direct !== null) return direct;
+
+    const inverse = this.lookup(`${to}/${from}`, day);
+    return inverse !== null ? 1 / inverse : null;
+  }
+
+  // Latest rate on or before the day, e.g. Friday's rate for a Sunday
+  private lookup(key: string, day: string): number | null {
+    const points = this.series.get(key);
+    if (!points?.length) return null;
+
+    let low = 0;
+    let high = points.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (points[middle].date <= day) {
+        found = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    if (found === -1 || daysBetween(points[found].date, day) > MAX_RATE_AGE_DAYS) return null;
+    return points[found].rate;
+  }
+}
+
+export interface FxRateError {
+  row: number;
+  message: string;
+}
+
+// CSV with date, base, quote and rate columns (header names are case-insensitive)
+export function parseFxRatesCsv(csv: string): { rates: FxRate[]; errors: FxRateError[] } {
+  const { records } = parseCsvRecords(csv);
+  const rates: FxRate[] = [];
+  const errors: FxRateError[] = [];
+
+  records.forEach((record, index) => {
+    const normalized = Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [key.trim().toLowerCase(), value])
+    );
+    const validateResult = fxRateSchema.safeParse(normalized);
+
+    if (!validateResult.success) {
+      errors.push({ row: index + 2, message: validateResult.error.errors.map((e) => e.message).join(", ") });
+      return;
+    }
+    rates.push(validateResult.data);
+  });
+
+  return { rates, errors };
+}
+
+// JSON file holding an array of { date, base, quote, rate } objects
+export function parseFxRatesJson(json: string): { rates: FxRate[]; errors: FxRateError[] } {
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error("FX rate file must contain an array of rates");
+  }
+
+  const rates: FxRate[] = [];
+  const errors: FxRateError[] = [];
+
+  parsed.forEach((entry, index) => {
+    const validateResult = fxRateSchema.safeParse(entry);
+    if (!validateResult.success) {
+      errors.push({ row: index, message: validateResult.error.errors.map((e) => e.message).join(", ") });
+      return;
+    }
+    rates.push(validateResult.data);
+  });
+
+  return { rates, errors };
+}
+
+// Load rates from FX_RATES_PATH (.csv or .json). Without a file only trades
+// already in the base currency can be converted.
+export function loadFxRateTable(filePath = process.env.FX_RATES_PATH || "data/fx-rates.csv"): FxRateTable {
+  if (!fs.existsSync(filePath)) {
+    if (process.env.FX_RATES_PATH) {
+      console.warn(`FX rate file ${filePath} not found. Trades in other currencies will be left out of analytics.`);
+    }
+    return new FxRateTable();
+  }
+
+  const contents = fs.readFileSync(filePath, "utf-8");
+  const { rates, errors } = path.extname(filePath).toLowerCase() === ".json"
+    ? parseFxRatesJson(contents)
+    : parseFxRatesCsv(contents);
+
+  if (errors.length) {
+    console.warn(`Skipped ${errors.length} invalid FX rates in ${filePath}, first at row ${errors[0].row}: ${errors[0].message}`);
+  }
+
+  return new FxRateTable(rates);
+}
+
+export const fxRates = loadFxRateTable();
+
+// Money fields on a trade that are denominated in the trade's currency
+const MONEY_FIELDS = ["entryPrice", "exitPrice", "realizedPnl", "fees", ...feeFields] as const;
+
+export interface UnconvertedTrade {
+  tradeId: number;
+  currency: string;
+  date: string;
+}
+
+export interface ConvertedTrades {
+  currency: string;
+  trades: Trade[];
+  // Closed trades left out because no rate was available for their exit date
+  unconvertedTrades: UnconvertedTrade[];
+}
+
+// Express closed trades in the target currency at their exit-date rate. Open
+// trades have no realized P&L and pass through unchanged.
+export function convertTrades(trades: Trade[], currency: string, table: FxRateTable = fxRates): ConvertedTrades {
+  const result: ConvertedTrades = { currency, trades: [], unconvertedTrades: [] };
+
+  for (const trade of trades) {
+    const from = tradeCurrency(trade);
+    if (from === currency || !trade.exitDate) {
+      result.trades.push(trade);
+      continue;
+    }
+
+    const exitDate = new Date(trade.exitDate);
+    const rate = table.rate(from, currency, exitDate);
+    if (rate === null) {
+      result.unconvertedTrades.push({ tradeId: trade.id, currency: from, date: dayKey(exitDate) });
+      continue;
+    }
+
+    const converted: Record<string, unknown> = { ...trade, currency, originalCurrency: from, fxRate: rate };
+    for (const field of MONEY_FIELDS) {
+      const value = (trade as Record<string, any>)[field];
+      if (value !== null && value !== undefined && value !== "") {
+        converted[field] = Number(value) * rate;
+      }
+    }
+    result.trades.push(converted as Trade);
+  }
+
+  return result;
+}
@@ -0,0 +1,119 @@
+import type { User } from "@shared/schema";
+import type { PlanType } from "./billing";
+import type { IStorage } from "./storage";
+import { HttpError } from "./errors";
+
+export type QuotaResource = "trades" | "collections" | "attachments";
+export type Feature = "csvImport";
+
+export interface PlanLimits {
+  // null means unlimited
+  quotas: Record<QuotaResource, number | null>;
+  features: Record<Feature, boolean>;
+}
+
+// Trades are counted per calendar month (UTC), collections and attachments in total
+export const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
+  free: {
+    quotas: { trades: 50, collections: 3, attachments: 25 },
+    features: { csvImport: false },
+  },
+  basic: {
+    quotas: { trades: 1000, collections: 25, attachments: 1000 },
+    features: { csvImport: true },
+  },
+  pro: {
+    quotas: { trades: null, collections: null, attachments: null },
+    features: { csvImport: true },
+  },
+};
+
+const UPGRADE_PATH: Record<PlanType, PlanType | null> = {
+  free: "basic",
+  basic: "pro",
+  pro: null,
+};
+
+export function userPlan(user: User): PlanType {
+  const planType = user.planType as PlanType;
+  return planType in PLAN_LIMITS ? planType : "free";
+}
+
+export function planLimits(user: User): PlanLimits {
+  return PLAN_LIMITS[userPlan(user)];
+}
+
+export function startOfMonth(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export async function getUsage(storage: IStorage, userId: number): Promise<Record<QuotaResource, number>> {
+  const [trades, collections, attachments] = await Promise.all([
+    storage.countUserTrades(userId, startOfMonth()),
+    storage.getUserCollections(userId).then((userCollections) => userCollections.length),
+    storage.countUserAttachments(userId),
+  ]);
+  return { trades, collections, attachments };
+}
+
+// A request blocked by the user's plan. The body tells the client which
+// plan would allow it.
+export class EntitlementError extends HttpError {
+  constructor(
+    status: 402 | 403,
+    code: "quota_exceeded" | "feature_not_available",
+    message: string,
+    details: {
+      planType: PlanType;
+      upgradeTo: PlanType | null;
+      resource?: QuotaResource;
+      feature?: Feature;
+      limit?: number;
+      usage?: number;
+    }
+  ) {
+    super(status, code, message, details);
+  }
+}
+
+// How many more of a resource the user may create, or null for unlimited
+export async function remainingQuota(storage: IStorage, user: User, resource: QuotaResource): Promise<number | null> {
+  const limit = planLimits(user).quotas[resource];
+  if (limit === null) return null;
+
+  const usage = (await getUsage(storage, user.id))[resource];
+  return Math.max(limit - usage, 0);
+}
+
+export async function checkQuota(
+  storage: IStorage,
+  user: User,
+  resource: QuotaResource,
+  requested = 1
+): Promise<EntitlementError | null> {
+  const planType = userPlan(user);
+  const limit = PLAN_LIMITS[planType].quotas[resource];
+  if (limit === null) return null;
+
+  const usage = (await getUsage(storage, user.id))[resource];
+  if (usage + requested <= limit) return null;
+
+  return new EntitlementError(
+    402,
+    "quota_exceeded",
+    `Your ${planType} plan allows ${limit} ${resource}${resource === "trades" ? " per month" : ""}`,
+    { planType, upgradeTo: UPGRADE_PATH[planType], resource, limit, usage }
+  );
+}
+
+export function checkFeature(user: User, feature: Feature): EntitlementError | null {
+  const planType = userPlan(user);
+  if (PLAN_LIMITS[planType].features[feature]) return null;
+
+  return new EntitlementError(
+    403,
+    "feature_not_available",
+    `${feature} is not available on the ${planType} plan`,
+    { planType, upgradeTo: UPGRADE_PATH[planType], feature }
+  );
+}
@@ -0,0 +1,176 @@
+import type { NextFunction, Request, Response } from "express";
+import { z, ZodError } from "zod";
+
+// Every API error response has this shape. Clients switch on code, which is
+// stable, rather than on message, which is meant for people.
+export interface ErrorBody {
+  code: string;
+  message: string;
+  // Problems with individual fields, for validation errors
+  errors?: FieldError[];
+  // Anything else a client needs to recover, like retryAfterSeconds
+  [detail: string]: unknown;
+}
+
+// The error body as a schema, for the OpenAPI document
+export const errorBodySchema = z
+  .object({
+    code: z.string(),
+    message: z.string(),
+    errors: z
+      .array(
+        z.object({
+          path: z.string(),
+          message: z.string(),
+          code: z.string(),
+          location: z.enum(["params", "query", "body"]).optional(),
+        })
+      )
+      .optional(),
+  })
+  .passthrough();
+
+export interface FieldError {
+  // Dotted path to the field, empty for problems with the input as a whole
+  path: string;
+  message: string;
+  code: string;
+  // Part of the request the field is in, when the middleware checked several
+  location?: "params" | "query" | "body";
+}
+
+// Extra fields for the error body. A code replaces the error's default one.
+export type ErrorDetails = { code?: string } & Record<string, unknown>;
+
+export class HttpError extends Error {
+  readonly code: string;
+  readonly details: Record<string, unknown>;
+
+  constructor(readonly status: number, defaultCode: string, message: string, { code = defaultCode, ...details }: ErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.details = details;
+  }
+
+  toBody(): ErrorBody {
+    return { ...this.details, code: this.code, message: this.message };
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(400, "bad_request", message, details);
+  }
+}
+
+export class ValidationError extends HttpError {
+  constructor(message: string, readonly errors: FieldError[] = [], details?: ErrorDetails) {
+    super(400, "validation_failed", message, details);
+  }
+
+  static fromZod(message: string, error: ZodError, location?: FieldError["location"]): ValidationError {
+    return new ValidationError(message, toFieldErrors(error, location));
+  }
+
+  toBody(): ErrorBody {
+    return { ...super.toBody(), errors: this.errors };
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = "Unauthorized", details?: ErrorDetails) {
+    super(401, "unauthorized", message, details);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message = "Forbidden", details?: ErrorDetails) {
+    super(403, "forbidden", message, details);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = "Not found", details?: ErrorDetails) {
+    super(404, "not_found", message, details);
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(409, "conflict", message, details);
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(429, "rate_limited", message, details);
+  }
+}
+
+export class ServiceUnavailableError extends HttpError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(503, "service_unavailable", message, details);
+  }
+}
+
+const STATUS_CODES: Record<number, string> = {
+  400: "bad_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  413: "payload_too_large",
+  415: "unsupported_media_type",
+  429: "rate_limited",
+  503: "service_unavailable",
+};
+
+export function toFieldErrors(error: ZodError, location?: FieldError["location"]): FieldError[] {
+  return error.errors.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+    code: issue.code,
+    ...(location && { location }),
+  }));
+}
+
+// Anything thrown, as the error to respond with. Errors that aren't ours
+// become 500s, except those Express middleware marks with a client status
+// (malformed JSON, oversized bodies) and upload limits.
+export function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) return error;
+  if (error instanceof ZodError) return ValidationError.fromZod("Invalid request", error);
+
+  const { name, message, status, statusCode, code } = (error ?? {}) as Record<string, any>;
+  if (name === "MulterError") {
+    return code === "LIMIT_FILE_SIZE"
+      ? new HttpError(413, "payload_too_large", message)
+      : new BadRequestError(message);
+  }
+
+  const clientStatus = status ?? statusCode;
+  if (typeof clientStatus === "number" && clientStatus >= 400 && clientStatus < 500) {
+    return new HttpError(clientStatus, STATUS_CODES[clientStatus] ?? "bad_request", message || "Bad request");
+  }
+  return new HttpError(500, "internal_error", message || "Internal server error");
+}
+
+export function sendError(res: Response, error: unknown): Response {
+  const httpError = toHttpError(error);
+  return res.status(httpError.status).json(httpError.toBody());
+}
+
+// Last middleware of the app, for errors passed to next(). Once the response
+// has started all that is left is to let Express end the connection.
+export function errorHandler(error: unknown, _req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  const httpError = toHttpError(error);
+  if (httpError.status >= 500) {
+    console.error("Unhandled error:", error);
+  }
+  sendError(res, httpError);
+}
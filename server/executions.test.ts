@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { InsertTrade, Trade } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { ExecutionMatchError, computeTradeAggregate, syncTradeWithExecutions, type Execution } from "./executions";
+
+let nextId = 1;
+function fill(side: "buy" | "sell", quantity: number, price: number, minute: number, fees = 0): Execution {
+  const id = nextId++;
+  return { id, tradeId: 1, side, quantity, price, fees, timestamp: new Date(Date.UTC(2024, 0, 2, 14, minute)), createdAt: new Date() };
+}
+
+test("FIFO closes the oldest lots first", () => {
+  const aggregate = computeTradeAggregate([
+    fill("buy", 100, 10, 0, 1),
+    fill("buy", 100, 12, 1, 1),
+    fill("sell", 150, 15, 2, 1),
+  ], "fifo")!;
+
+  assert.equal(aggregate.side, "long");
+  assert.equal(aggregate.quantity, 200);
+  assert.equal(aggregate.entryPrice, 11);
+  assert.equal(aggregate.exitPrice, 15);
+  // 100 × (15 - 10) + 50 × (15 - 12)
+  assert.equal(aggregate.realizedPnl, 650);
+  assert.equal(aggregate.openQuantity, 50);
+  assert.equal(aggregate.exitDate, null);
+  assert.equal(aggregate.commission, 3);
+});
+
+test("average cost closes against the running average", () => {
+  const aggregate = computeTradeAggregate([
+    fill("buy", 100, 10, 0),
+    fill("buy", 100, 12, 1),
+    fill("sell", 150, 15, 2),
+  ], "average")!;
+
+  // 150 × (15 - 11)
+  assert.equal(aggregate.realizedPnl, 600);
+  assert.equal(aggregate.matchingMethod, "average");
+});
+
+test("short positions and multipliers", () => {
+  const exit = fill("buy", 2, 4950, 5);
+  const aggregate = computeTradeAggregate([exit, fill("sell", 2, 5000, 0)], "fifo", 50)!;
+
+  assert.equal(aggregate.side, "short");
+  assert.equal(aggregate.realizedPnl, 2 * 50 * 50);
+  assert.equal(aggregate.openQuantity, 0);
+  assert.deepEqual(aggregate.exitDate, exit.timestamp);
+});
+
+test("closing more than is open is rejected", () => {
+  assert.throws(() => computeTradeAggregate([fill("buy", 1, 10, 0), fill("sell", 2, 11, 1)]), ExecutionMatchError);
+  assert.equal(computeTradeAggregate([]), null);
+});
+
+// Just the trade and execution methods sync calls, over one trade
+function tradeStorage(trade: Partial<Trade>, executions: Execution[]) {
+  let stored = { id: 1, userId: 1, ...trade } as Trade;
+  const storage = {
+    getTrade: async () => stored,
+    getTradeExecutions: async () => executions,
+    updateTrade: async (_id: number, update: Partial<InsertTrade>) => (stored = { ...stored, ...update } as Trade),
+  } as unknown as IStorage;
+  return storage;
+}
+
+test("deleting the last execution clears what the fills set", async () => {
+  const storage = tradeStorage(
+    { entryPrice: 10, exitPrice: 15, realizedPnl: 650, openQuantity: 50, matchingMethod: "fifo", commission: 3 } as Partial<Trade>,
+    []
+  );
+  const trade = (await syncTradeWithExecutions(storage, 1)) as any;
+
+  assert.equal(trade.realizedPnl, null);
+  assert.equal(trade.openQuantity, null);
+  assert.equal(trade.matchingMethod, null);
+  assert.equal(trade.commission, null);
+  assert.equal(trade.exitPrice, 15);
+});
+
+test("trades entered by hand are left alone", async () => {
+  const storage = tradeStorage({ entryPrice: 10, exitPrice: 15, commission: 2 } as Partial<Trade>, []);
+  const trade = (await syncTradeWithExecutions(storage, 1)) as any;
+
+  assert.equal(trade.commission, 2);
+  assert.equal(trade.realizedPnl, undefined);
+});
@@ -0,0 +1,169 @@
+import { z } from "zod";
+import type { InsertTrade, Trade } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { BadRequestError } from "./errors";
+import { contractMultiplier } from "./instruments";
+
+export const insertExecutionSchema = z.object({
+  tradeId: z.number(),
+  side: z.enum(["buy", "sell"]),
+  quantity: z.coerce.number().positive(),
+  price: z.coerce.number().nonnegative(),
+  timestamp: z.coerce.date(),
+  fees: z.coerce.number().nonnegative().default(0),
+});
+
+export type InsertExecution = z.infer<typeof insertExecutionSchema>;
+export type Execution = InsertExecution & { id: number; createdAt: Date };
+
+// Fields an execution update may change. Executions stay with their trade.
+export const updateExecutionSchema = insertExecutionSchema.omit({ tradeId: true }).partial().strict();
+
+export type UpdateExecution = z.infer<typeof updateExecutionSchema>;
+
+export const executionRecordSchema = insertExecutionSchema.extend({ id: z.number().int(), createdAt: z.date() });
+
+export const matchingMethods = ["fifo", "average"] as const;
+export type MatchingMethod = typeof matchingMethods[number];
+
+// Trade fields derived from its executions
+export interface TradeAggregate {
+  side: "long" | "short";
+  quantity: number;
+  entryPrice: number;
+  exitPrice: number | null;
+  entryDate: Date;
+  exitDate: Date | null;
+  // Sum of the fill fees, which are what the broker charged
+  commission: number;
+  openQuantity: number;
+  realizedPnl: number;
+  matchingMethod: MatchingMethod;
+}
+
+// Raised when a set of executions does not describe a valid position
+export class ExecutionMatchError extends BadRequestError {
+  constructor(message: string) {
+    super(message, { code: "invalid_executions" });
+  }
+}
+
+// Quantities are floats (crypto, fractional shares), compare with a tolerance
+const EPSILON = 1e-9;
+
+export function tradeMatchingMethod(trade: Trade): MatchingMethod {
+  const method = (trade as Trade & { matchingMethod?: string }).matchingMethod;
+  return method === "average" ? "average" : "fifo";
+}
+
+// Roll fills up into a single position. The first fill sets the direction;
+// fills on the same side scale in, fills on the other side scale out. Closed
+// quantity is matched against open lots in FIFO order or at the running
+// average cost, which only changes realized P&L while the position is open.
+// The multiplier turns price points into money for options and futures.
+export function computeTradeAggregate(executions: Execution[], method: MatchingMethod = "fifo", multiplier = 1): TradeAggregate | null {
+  if (executions.length === 0) return null;
+
+  const fills = [...executions].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.id - b.id
+  );
+  const openingSide = fills[0].side;
+  const direction = openingSide === "buy" ? 1 : -1;
+
+  const lots: { quantity: number; price: number }[] = [];
+  let averageCost = 0;
+  let openQuantity = 0;
+  let openedQuantity = 0;
+  let openedNotional = 0;
+  let closedQuantity = 0;
+  let closedNotional = 0;
+  let realizedPnl = 0;
+  let commission = 0;
+  let exitDate: Date | null = null;
+
+  for (const fill of fills) {
+    commission += fill.fees;
+
+    if (fill.side === openingSide) {
+      openedQuantity += fill.quantity;
+      openedNotional += fill.quantity * fill.price;
+
+      if (method === "fifo") {
+        lots.push({ quantity: fill.quantity, price: fill.price });
+      } else {
+        averageCost = (averageCost * openQuantity + fill.price * fill.quantity) / (openQuantity + fill.quantity);
+      }
+
+      openQuantity += fill.quantity;
+      exitDate = null;
+      continue;
+    }
+
+    if (fill.quantity > openQuantity + EPSILON) {
+      throw new ExecutionMatchError(
+        `Execution at ${fill.timestamp.toISOString()} closes ${fill.quantity} but only ${openQuantity} is open`
+      );
+    }
+
+    closedQuantity += fill.quantity;
+    closedNotional += fill.quantity * fill.price;
+
+    if (method === "fifo") {
+      let remaining = fill.quantity;
+      while (remaining > EPSILON && lots.length > 0) {
+        const lot = lots[0];
+        const matched = Math.min(lot.quantity, remaining);
+        realizedPnl += (fill.price - lot.price) * matched * direction;
+        lot.quantity -= matched;
+        remaining -= matched;
+        if (lot.quantity <= EPSILON) {
+          lots.shift();
+        }
+      }
+    } else {
+      realizedPnl += (fill.price - averageCost) * fill.quantity * direction;
+    }
+
+    openQuantity -= fill.quantity;
+    if (openQuantity <= EPSILON) {
+      openQuantity = 0;
+      averageCost = 0;
+      exitDate = fill.timestamp;
+    }
+  }
+
+  return {
+    side: direction === 1 ? "long" : "short",
+    quantity: openedQuantity,
+    entryPrice: openedNotional / openedQuantity,
+    exitPrice: closedQuantity > 0 ? closedNotional / closedQuantity : null,
+    entryDate: fills[0].timestamp,
+    exitDate,
+    commission,
+    openQuantity,
+    realizedPnl: realizedPnl * multiplier,
+    matchingMethod: method,
+  };
+}
+
+// Fields only executions set. Once the last execution is gone they are
+// cleared, so the trade's P&L comes from its own prices again.
+const clearedAggregate = { realizedPnl: null, openQuantity: null, matchingMethod: null, commission: null };
+
+// Recompute a trade from its executions and persist the derived fields.
+// Trades without executions are left as entered by hand.
+export async function syncTradeWithExecutions(storage: IStorage, tradeId: number): Promise<Trade | undefined> {
+  const trade = await storage.getTrade(tradeId);
+  if (!trade) return undefined;
+
+  const executions = await storage.getTradeExecutions(tradeId);
+  const aggregate = computeTradeAggregate(executions, tradeMatchingMethod(trade), contractMultiplier(trade));
+  if (!aggregate) {
+    const { openQuantity, realizedPnl } = trade as Trade & Partial<Pick<TradeAggregate, "openQuantity" | "realizedPnl">>;
+    const wasAggregated = (openQuantity ?? null) !== null || (realizedPnl ?? null) !== null;
+    return wasAggregated ? storage.updateTrade(tradeId, clearedAggregate as Partial<InsertTrade>) : trade;
+  }
+
+  // Fill fees replace any commission estimated from a schedule
+  return storage.updateTrade(tradeId, { ...aggregate, commissionSchedule: null } as Partial<InsertTrade>);
+}
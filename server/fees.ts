@@ -0,0 +1,126 @@
+import { z } from "zod";
+import type { Trade, User } from "@shared/schema";
+import { contractCount, contractMultiplier, type OptionLeg, type TradeInstrument } from "./instruments";
+
+// Itemized trading costs, all in the trade's currency
+export const feeFields = ["commission", "exchangeFees", "fundingCost", "slippage"] as const;
+export type FeeField = typeof feeFields[number];
+
+export type FeeBreakdown = Record<FeeField, number> & { total: number };
+
+export const tradeFeesSchema = z.object({
+  commission: z.coerce.number().nonnegative().optional(),
+  exchangeFees: z.coerce.number().nonnegative().optional(),
+  // Borrow fees on shorts or perpetual funding; negative when funding was received
+  fundingCost: z.coerce.number().optional(),
+  // Cost against the intended price; negative for price improvement
+  slippage: z.coerce.number().optional(),
+});
+
+export type TradeFees = z.infer<typeof tradeFeesSchema>;
+
+type FeeTrade = Trade & Partial<Record<FeeField, number | null>>;
+
+export function emptyFeeBreakdown(): FeeBreakdown {
+  return { commission: 0, exchangeFees: 0, fundingCost: 0, slippage: 0, total: 0 };
+}
+
+export function tradeFees(trade: Trade): FeeBreakdown {
+  const costs = trade as FeeTrade;
+  const breakdown = emptyFeeBreakdown();
+
+  for (const field of feeFields) {
+    breakdown[field] = Number(costs[field] ?? 0);
+  }
+
+  breakdown.total = feeFields.reduce((sum, field) => sum + breakdown[field], 0);
+  return breakdown;
+}
+
+export function addFees(a: FeeBreakdown, b: FeeBreakdown): FeeBreakdown {
+  const sum = emptyFeeBreakdown();
+  for (const field of feeFields) {
+    sum[field] = a[field] + b[field];
+  }
+  sum.total = a.total + b.total;
+  return sum;
+}
+
+export const commissionTypes = ["per_share", "per_contract", "percent_notional"] as const;
+export type CommissionType = typeof commissionTypes[number];
+
+export const commissionScheduleSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  type: z.enum(commissionTypes),
+  // Amount per share or contract, or a percentage of notional
+  rate: z.coerce.number().nonnegative(),
+  // Per order limits, e.g. a $1 minimum ticket charge
+  minimum: z.coerce.number().nonnegative().optional(),
+  maximum: z.coerce.number().nonnegative().optional(),
+  // Symbols the schedule covers. Empty covers every symbol without a more
+  // specific schedule.
+  symbols: z.array(z.string().trim().min(1).transform((symbol) => symbol.toUpperCase())).max(200).default([]),
+});
+
+export const commissionSchedulesSchema = z
+  .array(commissionScheduleSchema)
+  .max(50)
+  .refine(
+    (schedules) => new Set(schedules.map((schedule) => schedule.name.toLowerCase())).size === schedules.length,
+    { message: "Schedule names must be unique" }
+  );
+
+export type CommissionSchedule = z.infer<typeof commissionScheduleSchema>;
+
+type ScheduledUser = User & { commissionSchedules?: CommissionSchedule[] };
+
+export function userCommissionSchedules(user: User): CommissionSchedule[] {
+  return (user as ScheduledUser).commissionSchedules ?? [];
+}
+
+// A schedule listing the symbol wins over a catch-all one
+export function findCommissionSchedule(schedules: CommissionSchedule[], symbol: string): CommissionSchedule | undefined {
+  const normalized = symbol.toUpperCase();
+  return (
+    schedules.find((schedule) => schedule.symbols.includes(normalized)) ??
+    schedules.find((schedule) => schedule.symbols.length === 0)
+  );
+}
+
+type CommissionTradeInput = Partial<Pick<TradeInstrument, "instrumentType" | "multiplier" | "tickSize" | "tickValue">> & {
+  quantity: number | string;
+  entryPrice: number | string;
+  exitPrice?: number | string | null;
+  legs?: OptionLeg[] | null;
+};
+
+// Commission for the entry order, plus the exit order once the trade is
+// closed. Spreads are charged for the contracts on every leg.
+export function scheduledCommission(schedule: CommissionSchedule, trade: CommissionTradeInput): number {
+  const quantity = contractCount(trade);
+  const multiplier = contractMultiplier(trade);
+  const prices = [trade.entryPrice, trade.exitPrice].filter(
+    (price): price is number | string => price !== null && price !== undefined && price !== ""
+  );
+
+  return prices.reduce<number>((total, price) => {
+    let orderCommission = schedule.type === "percent_notional"
+      ? (Math.abs(Number(trade.quantity)) * Number(price) * multiplier * schedule.rate) / 100
+      : quantity * schedule.rate;
+
+    if (schedule.minimum !== undefined) orderCommission = Math.max(orderCommission, schedule.minimum);
+    if (schedule.maximum !== undefined) orderCommission = Math.min(orderCommission, schedule.maximum);
+    return total + orderCommission;
+  }, 0);
+}
+
+// Commission fields to store on a trade from the user's schedules, or an
+// empty object when no schedule covers the symbol
+export function commissionFromSchedules(
+  user: User,
+  trade: CommissionTradeInput & { symbol: string }
+): { commission: number; commissionSchedule: string } | {} {
+  const schedule = findCommissionSchedule(userCommissionSchedules(user), trade.symbol);
+  if (!schedule) return {};
+  return { commission: scheduledCommission(schedule, trade), commissionSchedule: schedule.name };
+}
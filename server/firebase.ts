@@ -38,6 +38,14 @@ export function getFirestore() {
 export const USERS_COLLECTION = 'users';
 export const TRADES_COLLECTION = 'trades';
 export const COLLECTIONS_COLLECTION = 'collections';
+export const IMPORT_PROFILES_COLLECTION = 'importProfiles';
+export const EXECUTIONS_COLLECTION = 'executions';
+export const TAGS_COLLECTION = 'tags';
+export const ATTACHMENTS_COLLECTION = 'attachments';
+export const API_TOKENS_COLLECTION = 'apiTokens';
+export const USED_TOKENS_COLLECTION = 'usedTokens';
+export const SESSIONS_COLLECTION = 'sessions';
+export const AUDIT_LOG_COLLECTION = 'auditLog';
 
 // Helper function to convert Firestore data to plain objects
 export function convertFirestoreData<T>(doc: admin.firestore.DocumentSnapshot): T | null {
@@ -59,6 +67,12 @@ export function convertFirestoreData<T>(doc: admin.firestore.DocumentSnapshot):
     ...(data.createdAt && { createdAt: data.createdAt.toDate() }),
     ...(data.entryDate && { entryDate: data.entryDate.toDate() }),
     ...(data.exitDate && { exitDate: data.exitDate.toDate() }),
+    ...(data.timestamp && { timestamp: data.timestamp.toDate() }),
+    ...(data.subscriptionPeriodEnd && { subscriptionPeriodEnd: data.subscriptionPeriodEnd.toDate() }),
+    ...(data.lastUsedAt && { lastUsedAt: data.lastUsedAt.toDate() }),
+    ...(data.expiresAt && { expiresAt: data.expiresAt.toDate() }),
+    ...(data.lastSeenAt && { lastSeenAt: data.lastSeenAt.toDate() }),
+    ...(data.deletedAt && { deletedAt: data.deletedAt.toDate() }),
   } as T;
 }
 
@@ -85,6 +99,12 @@ export function convertFirestoreCollection<T>(
       ...(data.createdAt && { createdAt: data.createdAt.toDate() }),
       ...(data.entryDate && { entryDate: data.entryDate.toDate() }),
       ...(data.exitDate && { exitDate: data.exitDate.toDate() }),
+      ...(data.timestamp && { timestamp: data.timestamp.toDate() }),
+      ...(data.subscriptionPeriodEnd && { subscriptionPeriodEnd: data.subscriptionPeriodEnd.toDate() }),
+      ...(data.lastUsedAt && { lastUsedAt: data.lastUsedAt.toDate() }),
+      ...(data.expiresAt && { expiresAt: data.expiresAt.toDate() }),
+      ...(data.lastSeenAt && { lastSeenAt: data.lastSeenAt.toDate() }),
+      ...(data.deletedAt && { deletedAt: data.deletedAt.toDate() }),
     } as T;
   });
 }
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { API_CLIENT_PATH, isApiClientCurrent, writeApiClient } from "./api-client";
+import { RouteRecorder } from "./openapi";
+import { buildApiDocument, registerApiRoutes } from "./routes";
+
+// Writes the typed API client for the SvelteKit app. The routes are only
+// recorded, so no storage, sessions or background work is started. With
+// --check nothing is written and the run fails if the committed client is
+// out of date, for CI.
+const routes = new RouteRecorder();
+registerApiRoutes(routes);
+const document = buildApiDocument(routes.routes);
+
+if (process.argv.includes("--check")) {
+  if (!(await isApiClientCurrent(document))) {
+    console.error(`${API_CLIENT_PATH} is out of date. Run \`npm run generate:api\` and commit the result.`);
+    process.exitCode = 1;
+  }
+} else {
+  const written = await writeApiClient(document);
+  console.log(written ? `Wrote ${API_CLIENT_PATH}` : `${API_CLIENT_PATH} is up to date`);
+}
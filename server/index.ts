@@ -1,13 +1,29 @@
-import express, { type Request, Response, NextFunction } from "express";
+import express from "express";
 import { registerRoutes } from "./routes";
-import { setupVite, serveStatic, log } from "./vite";
-import { initializeFirebase } from "./firebase";
+import { setupVite, serveStatic } from "./vite";
+import { apiLogLine, log } from "./log";
+import { errorHandler } from "./errors";
 
-// Initialize Firebase Admin SDK
-initializeFirebase();
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody: unknown
+  }
+}
 
 const app = express();
-app.use(express.json());
+
+// Behind a reverse proxy req.ip would be the proxy's address, which would
+// put every client in the same login throttle bucket
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", /^\d+$/.test(process.env.TRUST_PROXY) ? Number(process.env.TRUST_PROXY) : process.env.TRUST_PROXY);
+}
+
+app.use(express.json({
+  // Stripe webhook signatures are computed over the raw request body
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -24,16 +40,7 @@ app.use((req, res, next) => {
   res.on("finish", () => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
-      }
-
-      log(logLine);
+      log(apiLogLine(req.method, path, res.statusCode, duration, capturedJsonResponse));
     }
   });
 
@@ -43,13 +50,7 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
-
-    res.status(status).json({ message });
-    throw err;
-  });
+  app.use(errorHandler);
 
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import type { Trade } from "@shared/schema";
+
+export const instrumentTypes = ["stock", "option", "future", "forex", "crypto"] as const;
+export type InstrumentType = typeof instrumentTypes[number];
+
+export const optionRights = ["call", "put"] as const;
+
+// Expiries are calendar dates, kept as YYYY-MM-DD strings so they survive
+// every backend (including inside legs) without date revival
+const expirySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Expiry must be YYYY-MM-DD" });
+
+export const optionLegSchema = z.object({
+  side: z.enum(["long", "short"]),
+  right: z.enum(optionRights),
+  strike: z.coerce.number().positive(),
+  expiry: expirySchema,
+  // Contracts per spread, e.g. 2 on the short leg of a 1x2 ratio spread
+  quantity: z.coerce.number().positive().default(1),
+  entryPrice: z.coerce.number().nonnegative(),
+  exitPrice: z.coerce.number().nonnegative().nullish(),
+});
+
+export type OptionLeg = z.infer<typeof optionLegSchema>;
+
+// The instrument fields on their own, without the rules that span them
+export const instrumentObjectSchema = z.object({
+  instrumentType: z.enum(instrumentTypes).default("stock"),
+  // Single-leg options
+  optionRight: z.enum(optionRights).nullish(),
+  strike: z.coerce.number().positive().nullish(),
+  expiry: expirySchema.nullish(),
+  // Units of the underlying per contract (or per lot for forex)
+  multiplier: z.coerce.number().positive().nullish(),
+  // Futures: minimum price move and what one move is worth per contract
+  tickSize: z.coerce.number().positive().nullish(),
+  tickValue: z.coerce.number().positive().nullish(),
+  // Multi-leg option spreads, recorded as one trade on the underlying
+  legs: z.array(optionLegSchema).min(2).max(8).nullish(),
+});
+
+export const tradeInstrumentSchema = instrumentObjectSchema.superRefine((instrument, ctx) => {
+  if (instrument.legs && instrument.instrumentType !== "option") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["legs"], message: "Only option trades can have legs" });
+  }
+
+  if (instrument.instrumentType === "option" && !instrument.legs) {
+    for (const field of ["optionRight", "strike", "expiry"] as const) {
+      if (instrument[field] == null) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `Options need ${field}` });
+      }
+    }
+  }
+
+  if (
+    instrument.instrumentType === "future" &&
+    instrument.multiplier == null &&
+    (instrument.tickSize == null || instrument.tickValue == null)
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["multiplier"],
+      message: "Futures need a multiplier, or a tick size and tick value",
+    });
+  }
+});
+
+export type TradeInstrument = z.infer<typeof tradeInstrumentSchema>;
+export const instrumentFields = Object.keys(instrumentObjectSchema.shape) as (keyof TradeInstrument)[];
+
+type InstrumentLike = Partial<Pick<TradeInstrument, "instrumentType" | "multiplier" | "tickSize" | "tickValue" | "legs">>;
+
+// Standard US equity option contract
+const DEFAULT_OPTION_MULTIPLIER = 100;
+
+export function instrumentType(trade: Trade | InstrumentLike): InstrumentType {
+  return (trade as InstrumentLike).instrumentType ?? "stock";
+}
+
+// Currency value of a one point move in price, per unit of quantity
+export function contractMultiplier(trade: Trade | InstrumentLike): number {
+  const { multiplier, tickSize, tickValue } = trade as InstrumentLike;
+  if (multiplier) return Number(multiplier);
+
+  switch (instrumentType(trade)) {
+    case "option":
+      return DEFAULT_OPTION_MULTIPLIER;
+    case "future":
+      return tickSize && tickValue ? Number(tickValue) / Number(tickSize) : 1;
+    default:
+      return 1;
+  }
+}
+
+// Contracts traded, counting every leg of a spread
+export function contractCount(trade: { quantity: number | string; legs?: OptionLeg[] | null }): number {
+  const quantity = Math.abs(Number(trade.quantity));
+  if (!trade.legs?.length) return quantity;
+  return quantity * trade.legs.reduce((sum, leg) => sum + leg.quantity, 0);
+}
+
+// Net price of one spread: long legs count as paid, short legs as received.
+// A net credit is stored as a short position at a positive price, so the
+// usual (exit - entry) x direction formula gives the spread's P&L.
+export function spreadPrices(legs: OptionLeg[]): { side: "long" | "short"; entryPrice: number; exitPrice: number | null } {
+  const net = (price: (leg: OptionLeg) => number) =>
+    legs.reduce((sum, leg) => sum + (leg.side === "long" ? 1 : -1) * leg.quantity * price(leg), 0);
+
+  const entry = net((leg) => leg.entryPrice);
+  const direction = entry < 0 ? -1 : 1;
+  const closed = legs.every((leg) => leg.exitPrice != null);
+
+  return {
+    side: direction === 1 ? "long" : "short",
+    entryPrice: entry * direction,
+    exitPrice: closed ? net((leg) => leg.exitPrice!) * direction : null,
+  };
+}
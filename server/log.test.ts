@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { apiLogLine } from "./log";
+
+test("two-factor secrets and recovery codes are left out of the log", () => {
+  const secret = "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP";
+  const setup = apiLogLine("POST", "/api/auth/2fa/setup", 200, 12, {
+    secret,
+    otpauthUri: `otpauth://totp/Cold%20Harbor:trader%40example.com?secret=${secret}`,
+  });
+  assert.equal(setup, 'POST /api/auth/2fa/setup 200 in 12ms :: {"secret":"[redacted]","otpauthUri":"[r…');
+  assert.ok(!setup.includes("JBSWY3DP"), setup);
+
+  const recovery = apiLogLine("POST", "/api/auth/2fa/recovery-codes", 200, 8, { recoveryCodes: ["abcd-efgh-ijkl", "mnop-qrst-uvwx"] });
+  assert.equal(recovery, 'POST /api/auth/2fa/recovery-codes 200 in 8ms :: {"recoveryCodes":"[redacted]"}');
+  assert.ok(!recovery.includes("abcd"), recovery);
+});
+
+test("new API tokens are left out of the log", () => {
+  const line = apiLogLine("POST", "/api/auth/tokens", 201, 5, { token: "chk_0123456789abcdef" });
+  assert.ok(!line.includes("chk_"), line);
+});
+
+test("other responses are logged up to 80 characters", () => {
+  assert.equal(apiLogLine("GET", "/api/tags", 200, 3, [{ id: 1 }]), 'GET /api/tags 200 in 3ms :: [{"id":1}]');
+  assert.equal(apiLogLine("DELETE", "/api/tags/1", 204, 3), "DELETE /api/tags/1 204 in 3ms");
+
+  const long = apiLogLine("GET", "/api/trades", 200, 3, [{ notes: "x".repeat(200) }]);
+  assert.equal(long.length, 80);
+  assert.ok(long.endsWith("…"));
+});
@@ -0,0 +1,29 @@
+// Timestamped server log lines. Kept apart from vite.ts so modules that log
+// don't pull in the dev server.
+export function log(message: string, source = "express") {
+  const formattedTime = new Date().toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+
+  console.log(`${formattedTime} [${source}] ${message}`);
+}
+
+// Response fields that must never reach the log: TOTP secrets and their
+// provisioning URIs, recovery codes and newly created API tokens
+const SECRET_FIELDS = new Set(["secret", "otpauthUri", "recoveryCodes", "token"]);
+
+// One line for an API response, with the start of its JSON body
+export function apiLogLine(method: string, path: string, status: number, durationMs: number, body?: unknown): string {
+  let logLine = `${method} ${path} ${status} in ${durationMs}ms`;
+  if (body) {
+    logLine += ` :: ${JSON.stringify(body, (key, value) => (SECRET_FIELDS.has(key) ? "[redacted]" : value))}`;
+  }
+
+  if (logLine.length > 80) {
+    logLine = logLine.slice(0, 79) + "…";
+  }
+  return logLine;
+}
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { LoginThrottle, MemoryAttemptStore, THROTTLE_POLICIES, type ThrottleKey } from "./login-throttle";
+
+const account: ThrottleKey = { kind: "account", id: "Trader@Example.com" };
+const ip: ThrottleKey = { kind: "ip", id: "203.0.113.9" };
+
+async function fail(throttle: LoginThrottle, keys: ThrottleKey[], times: number, now: number) {
+  let lockedOut: ThrottleKey[] = [];
+  for (let i = 0; i < times; i++) {
+    lockedOut = await throttle.recordFailure(keys, now);
+  }
+  return lockedOut;
+}
+
+test("the free attempts aren't delayed, then each failure doubles the wait", async () => {
+  const throttle = new LoginThrottle(new MemoryAttemptStore());
+  const now = Date.now();
+
+  await fail(throttle, [account], THROTTLE_POLICIES.account.freeAttempts, now);
+  assert.deepEqual(await throttle.check([account], now), { allowed: true, retryAfterSeconds: 0, lockedOut: false });
+
+  await fail(throttle, [account], 1, now);
+  assert.equal((await throttle.check([account], now)).retryAfterSeconds, 1);
+  await fail(throttle, [account], 2, now);
+  assert.equal((await throttle.check([account], now)).retryAfterSeconds, 4);
+
+  // The block lifts once the delay has passed
+  assert.equal((await throttle.check([account], now + 4000)).allowed, true);
+});
+
+test("delays stop growing at the policy's maximum", async () => {
+  const throttle = new LoginThrottle(new MemoryAttemptStore());
+  const now = Date.now();
+
+  await fail(throttle, [ip], THROTTLE_POLICIES.ip.lockoutAfter - 1, now);
+  assert.deepEqual(await throttle.check([ip], now), {
+    allowed: false,
+    retryAfterSeconds: THROTTLE_POLICIES.ip.maxDelayMs / 1000,
+    lockedOut: false,
+  });
+});
+
+test("enough failures lock the key out, reported once", async () => {
+  const throttle = new LoginThrottle(new MemoryAttemptStore());
+  const now = Date.now();
+
+  const lockedOut = await fail(throttle, [account, ip], THROTTLE_POLICIES.account.lockoutAfter, now);
+  assert.deepEqual(lockedOut, [account]);
+  assert.deepEqual(await throttle.check([account, ip], now), {
+    allowed: false,
+    retryAfterSeconds: THROTTLE_POLICIES.account.lockoutMs / 1000,
+    lockedOut: true,
+  });
+
+  assert.deepEqual(await throttle.recordFailure([account], now), []);
+});
+
+test("keys are case-insensitive and reset clears them", async () => {
+  const throttle = new LoginThrottle(new MemoryAttemptStore());
+  const now = Date.now();
+
+  await fail(throttle, [account], THROTTLE_POLICIES.account.freeAttempts + 1, now);
+  const sameAccount: ThrottleKey = { kind: "account", id: "trader@example.com" };
+  assert.equal((await throttle.check([sameAccount], now)).allowed, false);
+
+  await throttle.reset(sameAccount);
+  assert.equal((await throttle.check([account], now)).allowed, true);
+});
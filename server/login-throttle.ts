@@ -0,0 +1,170 @@
+// Attempt tracking for login and registration. Each key (an IP address or an
+// account email) accumulates failures; past a few free attempts every new
+// failure blocks the key for an exponentially growing delay, and enough of
+// them lock it out for a fixed period.
+
+export interface ThrottlePolicy {
+  // Failures allowed before any delay applies
+  freeAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Failure count that triggers a lockout
+  lockoutAfter: number;
+  lockoutMs: number;
+  // Failures are forgotten after this long without a new one
+  resetAfterMs: number;
+}
+
+export type ThrottleKind = "account" | "ip" | "register";
+
+export const THROTTLE_POLICIES: Record<ThrottleKind, ThrottlePolicy> = {
+  account: {
+    freeAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 60 * 1000,
+    lockoutAfter: 10,
+    lockoutMs: 15 * 60 * 1000,
+    resetAfterMs: 60 * 60 * 1000,
+  },
+  // Looser than account, many users can share an address
+  ip: {
+    freeAttempts: 10,
+    baseDelayMs: 1000,
+    maxDelayMs: 5 * 60 * 1000,
+    lockoutAfter: 50,
+    lockoutMs: 60 * 60 * 1000,
+    resetAfterMs: 60 * 60 * 1000,
+  },
+  register: {
+    freeAttempts: 5,
+    baseDelayMs: 10 * 1000,
+    maxDelayMs: 10 * 60 * 1000,
+    lockoutAfter: 20,
+    lockoutMs: 60 * 60 * 1000,
+    resetAfterMs: 60 * 60 * 1000,
+  },
+};
+
+export interface ThrottleKey {
+  kind: ThrottleKind;
+  id: string;
+}
+
+export interface AttemptRecord {
+  failures: number;
+  // Milliseconds since epoch
+  blockedUntil: number | null;
+  lockedOut: boolean;
+  expiresAt: number;
+}
+
+export interface AttemptStore {
+  get(key: string): Promise<AttemptRecord | undefined>;
+  set(key: string, record: AttemptRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Default store. Kept in process memory, so limits are per instance and
+// reset on restart.
+export class MemoryAttemptStore implements AttemptStore {
+  private records = new Map<string, AttemptRecord>();
+  private lastSweep = Date.now();
+
+  async get(key: string): Promise<AttemptRecord | undefined> {
+    const record = this.records.get(key);
+    if (record && record.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  async set(key: string, record: AttemptRecord): Promise<void> {
+    this.records.set(key, record);
+    this.sweep();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  // Drop expired records once a minute so the map doesn't grow without bound
+  private sweep(now = Date.now()) {
+    if (now - this.lastSweep < 60 * 1000) return;
+    this.lastSweep = now;
+    Array.from(this.records.entries()).forEach(([key, record]) => {
+      if (record.expiresAt <= now) this.records.delete(key);
+    });
+  }
+}
+
+export interface ThrottleStatus {
+  allowed: boolean;
+  retryAfterSeconds: number;
+  lockedOut: boolean;
+}
+
+function storeKey(key: ThrottleKey): string {
+  return `${key.kind}:${key.id.toLowerCase()}`;
+}
+
+export class LoginThrottle {
+  constructor(
+    private store: AttemptStore,
+    private policies = THROTTLE_POLICIES
+  ) {}
+
+  // Blocked if any of the keys is blocked; reports the longest wait
+  async check(keys: ThrottleKey[], now = Date.now()): Promise<ThrottleStatus> {
+    let status: ThrottleStatus = { allowed: true, retryAfterSeconds: 0, lockedOut: false };
+
+    for (const key of keys) {
+      const record = await this.store.get(storeKey(key));
+      if (!record?.blockedUntil || record.blockedUntil <= now) continue;
+
+      const retryAfterSeconds = Math.ceil((record.blockedUntil - now) / 1000);
+      if (retryAfterSeconds > status.retryAfterSeconds) {
+        status = { allowed: false, retryAfterSeconds, lockedOut: record.lockedOut };
+      }
+    }
+
+    return status;
+  }
+
+  // Count a failure against each key. Returns the keys this failure locked out.
+  async recordFailure(keys: ThrottleKey[], now = Date.now()): Promise<ThrottleKey[]> {
+    const lockedOut: ThrottleKey[] = [];
+
+    for (const key of keys) {
+      const policy = this.policies[key.kind];
+      const previous = await this.store.get(storeKey(key));
+      const failures = (previous?.failures ?? 0) + 1;
+
+      let blockedUntil: number | null = null;
+      let locked = false;
+      if (failures >= policy.lockoutAfter) {
+        blockedUntil = now + policy.lockoutMs;
+        locked = true;
+        if (!previous?.lockedOut) lockedOut.push(key);
+      } else if (failures > policy.freeAttempts) {
+        const delay = policy.baseDelayMs * 2 ** (failures - policy.freeAttempts - 1);
+        blockedUntil = now + Math.min(delay, policy.maxDelayMs);
+      }
+
+      await this.store.set(storeKey(key), {
+        failures,
+        blockedUntil,
+        lockedOut: locked,
+        expiresAt: Math.max(now + policy.resetAfterMs, blockedUntil ?? 0),
+      });
+    }
+
+    return lockedOut;
+  }
+
+  async reset(key: ThrottleKey): Promise<void> {
+    await this.store.delete(storeKey(key));
+  }
+}
+
+export const loginThrottle = new LoginThrottle(new MemoryAttemptStore());
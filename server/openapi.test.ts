@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { RouteRecorder, buildOpenApiDocument, zodToJsonSchema, type JsonSchema } from "./openapi";
+import { validate } from "./validation";
+
+test("zod schemas become JSON Schema", () => {
+  const schema = z
+    .object({
+      name: z.string().min(1).max(50),
+      quantity: z.number().int().positive(),
+      side: z.enum(["long", "short"]),
+      notes: z.string().nullable().optional(),
+      tags: z.array(z.number().int()).max(20).default([]),
+      openedAt: z.coerce.date(),
+    })
+    .strict();
+
+  assert.deepEqual(zodToJsonSchema(schema), {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1, maxLength: 50 },
+      quantity: { type: "integer", exclusiveMinimum: 0 },
+      side: { type: "string", enum: ["long", "short"] },
+      notes: { anyOf: [{ type: "string" }, { type: "null" }] },
+      tags: { type: "array", items: { type: "integer" }, maxItems: 20, default: [] },
+      openedAt: { type: "string", format: "date-time" },
+    },
+    required: ["name", "quantity", "side", "openedAt"],
+    additionalProperties: false,
+  });
+});
+
+test("refinements, unions and named schemas", () => {
+  const tag = z.object({ id: z.number() });
+  const schema = z.union([tag, z.literal("none")]).refine(() => true);
+  const refs = new Map([[tag, "Tag"]]);
+
+  assert.deepEqual(zodToJsonSchema(schema, refs), {
+    anyOf: [{ $ref: "#/components/schemas/Tag" }, { type: "string", const: "none" }],
+  });
+});
+
+test("the document lists the recorded routes with their request schemas", () => {
+  const routes = new RouteRecorder();
+  const ensureAuthenticated = () => {};
+  routes.get("/api/trades/:id", ensureAuthenticated, validate({ params: z.object({ id: z.coerce.number().int() }) }), () => {});
+  routes.post("/api/tags", validate({ body: z.object({ name: z.string() }) }), () => {});
+  routes.get("/health", () => {});
+
+  const document = buildOpenApiDocument(routes.routes, {
+    title: "Test",
+    version: "1.0.0",
+    routes: { "GET /api/trades/:id": { operationId: "getTrade" } },
+    schemas: {},
+    authenticate: [ensureAuthenticated],
+  });
+  const paths = document.paths as Record<string, Record<string, JsonSchema>>;
+
+  assert.deepEqual(Object.keys(paths), ["/api/trades/{id}", "/api/tags"]);
+  assert.equal(paths["/api/trades/{id}"].get.operationId, "getTrade");
+  assert.deepEqual(paths["/api/trades/{id}"].get.parameters, [
+    { name: "id", in: "path", required: true, schema: { type: "integer" } },
+  ]);
+  assert.deepEqual(paths["/api/trades/{id}"].get.security, [{ session: [] }, { apiToken: [] }]);
+
+  assert.equal(paths["/api/tags"].post.operationId, "postTags");
+  assert.deepEqual(paths["/api/tags"].post.security, []);
+});
@@ -0,0 +1,344 @@
+import type { Express, RequestHandler } from "express";
+import { z, type ZodTypeAny } from "zod";
+import { errorBodySchema } from "./errors";
+import { requestSchemasOf, type RequestSchemas } from "./validation";
+
+// OpenAPI 3.1 document built from the routes themselves. Every /api route
+// registered through a RouteRecorder is listed. Request schemas come from the
+// validate() and documentRequest() middleware on the route, everything else
+// from RouteDocs.
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface RouteDoc {
+  operationId: string;
+  summary?: string;
+  // Status of a successful response
+  status?: number;
+  // Schema of a successful JSON response. Left out, the body is untyped.
+  response?: ZodTypeAny;
+  // Content type of a route that sends a file rather than JSON
+  download?: string;
+  // Multipart file field of a route that takes uploads
+  upload?: { field: string; multiple?: boolean };
+}
+
+export interface OpenApiOptions {
+  title: string;
+  version: string;
+  // Keyed by method and Express path, like "PUT /api/trades/:id"
+  routes: Record<string, RouteDoc>;
+  // Schemas listed under components and referenced wherever they appear
+  schemas: Record<string, ZodTypeAny>;
+  // Middleware that requires a session or an API token
+  authenticate: Function[];
+}
+
+const SECURED = [{ session: [] }, { apiToken: [] }];
+
+export type RouteMethod = "get" | "post" | "put" | "patch" | "delete";
+
+export interface ApiRoute {
+  method: RouteMethod;
+  path: string;
+  handlers: Function[];
+}
+
+// Registers routes on the app, when there is one, and keeps a list of them
+// that the document is built from. Without an app the routes are only
+// described, so the document needs none of the server's setup.
+export class RouteRecorder {
+  readonly routes: ApiRoute[] = [];
+
+  constructor(private app?: Express) {}
+
+  get(path: string, ...handlers: RequestHandler[]) {
+    this.routes.push({ method: "get", path, handlers });
+    this.app?.get(path, ...handlers);
+  }
+
+  post(path: string, ...handlers: RequestHandler[]) {
+    this.routes.push({ method: "post", path, handlers });
+    this.app?.post(path, ...handlers);
+  }
+
+  put(path: string, ...handlers: RequestHandler[]) {
+    this.routes.push({ method: "put", path, handlers });
+    this.app?.put(path, ...handlers);
+  }
+
+  patch(path: string, ...handlers: RequestHandler[]) {
+    this.routes.push({ method: "patch", path, handlers });
+    this.app?.patch(path, ...handlers);
+  }
+
+  delete(path: string, ...handlers: RequestHandler[]) {
+    this.routes.push({ method: "delete", path, handlers });
+    this.app?.delete(path, ...handlers);
+  }
+}
+
+function jsonValue(value: unknown): unknown {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+// JSON Schema for what a zod schema accepts. Transforms and refinements
+// can't be expressed and describe their input. Schemas named in refs become
+// references, except at the root so a component can describe itself.
+export function zodToJsonSchema(schema: ZodTypeAny, refs = new Map<ZodTypeAny, string>(), root = true): JsonSchema {
+  const name = refs.get(schema);
+  if (name && !root) {
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  const converted = convertZod(schema, refs);
+  return schema.description ? { ...converted, description: schema.description } : converted;
+}
+
+function convertZod(schema: ZodTypeAny, refs: Map<ZodTypeAny, string>): JsonSchema {
+  const convert = (inner: ZodTypeAny) => zodToJsonSchema(inner, refs, false);
+
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: "string" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") result.minLength = check.value;
+      if (check.kind === "max") result.maxLength = check.value;
+      if (check.kind === "length") result.minLength = result.maxLength = check.value;
+      if (check.kind === "regex") result.pattern = check.regex.source;
+      if (check.kind === "email") result.format = "email";
+      if (check.kind === "url") result.format = "uri";
+      if (check.kind === "uuid") result.format = "uuid";
+      if (check.kind === "datetime") result.format = "date-time";
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: "number" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "int") result.type = "integer";
+      if (check.kind === "min") result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      if (check.kind === "max") result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      if (check.kind === "multipleOf") result.multipleOf = check.value;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodBigInt) return { type: "integer" };
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  // Dates travel as ISO 8601 strings
+  if (schema instanceof z.ZodDate) return { type: "string", format: "date-time" };
+  if (schema instanceof z.ZodLiteral) {
+    return schema.value === null ? { type: "null" } : { type: typeof schema.value, const: schema.value };
+  }
+  if (schema instanceof z.ZodEnum) return { type: "string", enum: schema.options };
+  if (schema instanceof z.ZodNativeEnum) {
+    // Numeric enums map names to values and back, keep the values
+    const values = Object.values(schema.enum).filter((value) => typeof schema.enum[value as string] !== "number");
+    return { enum: values };
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength, exactLength } = schema._def;
+    const result: JsonSchema = { type: "array", items: convert(schema.element) };
+    if (minLength) result.minItems = minLength.value;
+    if (maxLength) result.maxItems = maxLength.value;
+    if (exactLength) result.minItems = result.maxItems = exactLength.value;
+    return result;
+  }
+  if (schema instanceof z.ZodSet) {
+    return { type: "array", items: convert(schema._def.valueType), uniqueItems: true };
+  }
+  if (schema instanceof z.ZodTuple) {
+    const { items, rest } = schema._def;
+    return { type: "array", prefixItems: items.map(convert), ...(rest ? { items: convert(rest) } : { maxItems: items.length }) };
+  }
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as Record<string, ZodTypeAny>)) {
+      properties[key] = convert(value);
+      if (!value.isOptional()) required.push(key);
+    }
+
+    const { catchall, unknownKeys } = schema._def;
+    const result: JsonSchema = { type: "object", properties };
+    if (required.length > 0) result.required = required;
+    if (!(catchall instanceof z.ZodNever)) {
+      result.additionalProperties = convert(catchall);
+    } else if (unknownKeys === "strict") {
+      result.additionalProperties = false;
+    } else if (unknownKeys === "passthrough") {
+      result.additionalProperties = true;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodRecord || schema instanceof z.ZodMap) {
+    return { type: "object", additionalProperties: convert(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodUnion) return { anyOf: schema.options.map(convert) };
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    return { oneOf: schema.options.map(convert), discriminator: { propertyName: schema.discriminator } };
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return { allOf: [convert(schema._def.left), convert(schema._def.right)] };
+  }
+  if (schema instanceof z.ZodOptional) return convert(schema.unwrap());
+  if (schema instanceof z.ZodNullable) return { anyOf: [convert(schema.unwrap()), { type: "null" }] };
+  if (schema instanceof z.ZodDefault) {
+    return { ...convert(schema.removeDefault()), default: jsonValue(schema._def.defaultValue()) };
+  }
+  if (schema instanceof z.ZodCatch) return convert(schema.removeCatch());
+  if (schema instanceof z.ZodReadonly || schema instanceof z.ZodBranded) return convert(schema.unwrap());
+  if (schema instanceof z.ZodEffects) return convert(schema.innerType());
+  if (schema instanceof z.ZodPipeline) return convert(schema._def.in);
+  if (schema instanceof z.ZodLazy) return convert(schema.schema);
+  if (schema instanceof z.ZodNull) return { type: "null" };
+  if (schema instanceof z.ZodNever || schema instanceof z.ZodUndefined || schema instanceof z.ZodVoid) {
+    return { not: {} };
+  }
+  return {};
+}
+
+// The object schema underneath refinements, defaults and the like, whose
+// fields become query or path parameters
+function objectShape(schema: ZodTypeAny | undefined): Record<string, ZodTypeAny> | undefined {
+  let current = schema;
+  while (current) {
+    if (current instanceof z.ZodObject) return current.shape;
+
+    if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else if (current instanceof z.ZodPipeline) {
+      current = current._def.in;
+    } else if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      current = current.removeDefault();
+    } else {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+// "/api/trades/:id" becomes "/api/trades/{id}"
+export function openApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+// Fallback operation id from the method and path, like putTradesById
+function defaultOperationId(method: string, path: string): string {
+  const words = path
+    .replace(/^\/api\//, "")
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => (segment.startsWith(":") ? `by-${segment.slice(1)}` : segment))
+    .join("-")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  return [method, ...words].map((word, index) => (index === 0 ? word : word[0].toUpperCase() + word.slice(1))).join("");
+}
+
+function operation(route: ApiRoute, doc: RouteDoc | undefined, options: OpenApiOptions, refs: Map<ZodTypeAny, string>): JsonSchema {
+  const convert = (schema: ZodTypeAny) => zodToJsonSchema(schema, refs, false);
+
+  // Later middleware describes the request more precisely than earlier
+  const schemas: RequestSchemas = {};
+  for (const handler of route.handlers) {
+    Object.assign(schemas, requestSchemasOf(handler));
+  }
+
+  const pathShape = objectShape(schemas.params) ?? {};
+  const parameters: JsonSchema[] = Array.from(route.path.matchAll(/:(\w+)/g), ([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: pathShape[name] ? convert(pathShape[name]) : { type: "string" },
+  }));
+  for (const [name, schema] of Object.entries(objectShape(schemas.query) ?? {})) {
+    parameters.push({ name, in: "query", required: !schema.isOptional(), schema: convert(schema) });
+  }
+
+  let requestBody: JsonSchema | undefined;
+  if (doc?.upload) {
+    const file = { type: "string", format: "binary" };
+    requestBody = {
+      required: true,
+      content: {
+        "multipart/form-data": {
+          schema: {
+            type: "object",
+            properties: {
+              ...(schemas.body && (convert(schemas.body).properties as JsonSchema | undefined)),
+              [doc.upload.field]: doc.upload.multiple ? { type: "array", items: file } : file,
+            },
+            required: [doc.upload.field],
+          },
+        },
+      },
+    };
+  } else if (schemas.body) {
+    requestBody = {
+      required: !schemas.body.isOptional(),
+      content: { "application/json": { schema: convert(schemas.body) } },
+    };
+  }
+
+  const status = String(doc?.status ?? 200);
+  const content = doc?.download
+    ? { [doc.download]: { schema: { type: "string", format: "binary" } } }
+    : { "application/json": { schema: doc?.response ? convert(doc.response) : {} } };
+  const secured = route.handlers.some((handler) => options.authenticate.includes(handler));
+
+  return {
+    operationId: doc?.operationId ?? defaultOperationId(route.method, route.path),
+    ...(doc?.summary && { summary: doc.summary }),
+    tags: [route.path.split("/")[2]],
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestBody && { requestBody }),
+    responses: {
+      [status]: { description: status === "201" ? "Created" : "OK", content },
+      default: {
+        description: "Error",
+        content: { "application/json": { schema: { $ref: "#/components/schemas/ErrorBody" } } },
+      },
+    },
+    security: secured ? SECURED : [],
+  };
+}
+
+export function buildOpenApiDocument(routes: ApiRoute[], options: OpenApiOptions): JsonSchema {
+  const named: Record<string, ZodTypeAny> = { ErrorBody: errorBodySchema, ...options.schemas };
+  const refs = new Map(Object.entries(named).map(([name, schema]) => [schema, name]));
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  const documented = new Set<string>();
+  for (const route of routes) {
+    if (!route.path.startsWith("/api/")) continue;
+
+    const key = `${route.method.toUpperCase()} ${route.path}`;
+    const doc = options.routes[key];
+    if (doc) documented.add(key);
+
+    const path = openApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: operation(route, doc, options, refs) };
+  }
+
+  // Docs for routes that were renamed or removed
+  for (const key of Object.keys(options.routes)) {
+    if (!documented.has(key)) {
+      console.warn(`API docs for ${key} match no route`);
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: options.title, version: options.version },
+    paths,
+    components: {
+      schemas: Object.fromEntries(Object.entries(named).map(([name, schema]) => [name, zodToJsonSchema(schema, refs)])),
+      securitySchemes: {
+        session: { type: "apiKey", in: "cookie", name: "connect.sid" },
+        apiToken: { type: "http", scheme: "bearer" },
+      },
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import type { Trade } from "@shared/schema";
+import { tradeFees } from "./fees";
+import { contractMultiplier } from "./instruments";
+
+// Fields set on trades that are rolled up from executions (see executions.ts)
+type AggregatedTrade = Trade & { realizedPnl?: number | null };
+
+export function tradeDirection(trade: Trade): 1 | -1 {
+  return String(trade.side).toLowerCase() === "short" ? -1 : 1;
+}
+
+// Realized P&L of a closed trade, or null while the trade is still open.
+// Prices are per unit of the underlying, so options and futures are scaled by
+// their contract multiplier.
+export function calculateTradePnl(trade: Trade): number | null {
+  if (!trade.exitDate) {
+    return null;
+  }
+
+  const { realizedPnl } = trade as AggregatedTrade;
+  if (typeof realizedPnl === "number") {
+    return realizedPnl;
+  }
+
+  if (trade.exitPrice === null || trade.exitPrice === undefined) {
+    return null;
+  }
+
+  const entryPrice = Number(trade.entryPrice);
+  const exitPrice = Number(trade.exitPrice);
+  const quantity = Number(trade.quantity);
+
+  return (exitPrice - entryPrice) * quantity * tradeDirection(trade) * contractMultiplier(trade);
+}
+
+// Realized P&L after commissions, fees, funding and slippage
+export function calculateNetTradePnl(trade: Trade): number | null {
+  const gross = calculateTradePnl(trade);
+  return gross === null ? null : gross - tradeFees(trade).total;
+}
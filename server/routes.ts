@@ -4,10 +4,42 @@ import session from "express-session";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { z } from "zod";
-import { storage } from "./storage";
-import { insertUserSchema, insertTradeSchema, insertCollectionSchema } from "@shared/schema";
+import { createStorage, type IStorage } from "./storage";
+import { insertUserSchema, insertTradeSchema, insertCollectionSchema, type InsertTrade, type User } from "@shared/schema";
 import Stripe from "stripe";
 import { compare, hash } from "bcryptjs";
+import multer from "multer";
+import { cancelStripeSubscription, clearSubscription, constructStripeEvent, handleStripeEvent } from "./billing";
+import { mailer } from "./mailer";
+import { consumeAccountToken, isEmailVerified, sendPasswordResetEmail, sendVerificationEmail } from "./verification";
+import { loginThrottle, type ThrottleKey, type ThrottleStatus } from "./login-throttle";
+import { securityLog, type SecurityEvent } from "./security-log";
+import { SESSION_TTL_MS, StorageSessionStore, publicSessionId, sessionClientInfo, sessionSecret, toPublicSession } from "./session-store";
+import { MAX_TWO_FACTOR_ATTEMPTS, TWO_FACTOR_CHALLENGE_TTL_MS, decryptSecret, encryptSecret, generateRecoveryCodes, generateTotpSecret, isTwoFactorEnabled, provisioningUri, toPublicUser, verifySecondFactor, verifyTotp, type TwoFactorUser } from "./two-factor";
+import { bearerToken, consumeRateLimit, createApiTokenSchema, generateApiToken, hashApiToken, hasScope, requiredScope, shouldTouchApiToken, toPublicApiToken } from "./api-tokens";
+import { checkFeature, checkQuota, getUsage, planLimits, remainingQuota, userPlan, type Feature, type QuotaResource } from "./entitlements";
+import { analyticsFilterSchema, bucketPnl, closedTrades, equityCurve, equityCurveQuerySchema, filterTrades, summarizePerformance, timeSeriesQuerySchema } from "./analytics";
+import { computeTradeAggregate, insertExecutionSchema, syncTradeWithExecutions, tradeMatchingMethod, updateExecutionSchema, type Execution } from "./executions";
+import { DEFAULT_TRADE_PAGE_SIZE, tradeQuerySchema } from "./trade-query";
+import { ALLOWED_ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE, attachmentStore, deleteAttachment, imageContentType, saveAttachment } from "./attachments";
+import { baseCurrency, convertTrades, currencySchema } from "./currency";
+import { instrumentFields, spreadPrices, tradeInstrumentSchema } from "./instruments";
+import { commissionFromSchedules, commissionSchedulesSchema, scheduledCommission, tradeFeesSchema, userCommissionSchedules } from "./fees";
+import { insertTagSchema, summarizeByTag, tagCategories, tradeTagsSchema, updateTagSchema } from "./tags";
+import { builtInImportProfiles, importTrades, insertImportProfileSchema, resolveImportProfile } from "./trade-import";
+import { timezoneSchema } from "./timezone";
+import { isEmptyAccount, readArchiveCounts, readUserArchive, restoreUserArchive, writeUserArchive } from "./archive";
+import { ZipError } from "./zip";
+import { deleteUserAccount } from "./account";
+import { recordChange, restoreUpdate, withVersions, type AuditAction, type AuditEntityType } from "./audit";
+import { deleteCollectionSchema, deleteCollectionWithTrades, updateCollectionSchema } from "./collections";
+import { createTradeSchema, updateTradeSchema } from "./trades";
+import { attachmentParamsSchema, documentRequest, executionParamsSchema, idParamsSchema, validate, validatedRequest, versionParamsSchema } from "./validation";
+import { BadRequestError, ConflictError, ForbiddenError, HttpError, NotFoundError, ServiceUnavailableError, TooManyRequestsError, UnauthorizedError, ValidationError, sendError } from "./errors";
+import { applyBulkTradeRequest, bulkTagIds, bulkTradeSchema } from "./bulk-trades";
+import { RouteRecorder, buildOpenApiDocument, type ApiRoute, type JsonSchema } from "./openapi";
+import { apiRoutes, apiSchemas } from "./api-docs";
+import { TRASH_RETENTION_DAYS, collectionTrash, deletedAt, isTrashed, purgeTrash, restoreCollection, restoreTrade, startTrashSweep, toTrashItems, trashExpiresAt } from "./trash";
 
 if (!process.env.STRIPE_SECRET_KEY) {
   console.warn('Missing STRIPE_SECRET_KEY. Stripe payment processing will be disabled.');
@@ -19,25 +51,232 @@ const stripe = process.env.STRIPE_SECRET_KEY
     })
   : null;
 
-// Helper to verify user is authenticated
-const ensureAuthenticated = (req: Request, res: Response, next: Function) => {
-  if (req.isAuthenticated()) {
-    return next();
+if (stripe && !process.env.STRIPE_WEBHOOK_SECRET) {
+  console.warn('Missing STRIPE_WEBHOOK_SECRET. Stripe webhooks will be rejected and plans will not sync.');
+}
+
+// Uploads are small CSV files, keep them in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+});
+
+// Export archives, which include attachment files
+const archiveUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 100 * 1024 * 1024 },
+});
+
+// Chart screenshots attached to trades
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_SIZE, files: 10 },
+  fileFilter: (_req, file, callback) => {
+    callback(null, ALLOWED_ATTACHMENT_TYPES.includes(file.mimetype));
+  },
+});
+
+// Created by registerRoutes rather than on import, so describing the routes
+// for the API client doesn't open a database
+let storage: IStorage;
+
+// Helper to authenticate a request by API token. Sends the error response
+// and returns false when the token is missing, invalid or over its limits.
+const authenticateApiToken = async (req: Request, res: Response): Promise<boolean> => {
+  const token = bearerToken(req);
+  if (!token) {
+    sendError(res, new UnauthorizedError());
+    return false;
+  }
+  
+  const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+  const user = apiToken && await storage.getUser(apiToken.userId);
+  if (!apiToken || !user) {
+    sendError(res, new UnauthorizedError("Invalid API token"));
+    return false;
+  }
+  
+  const scope = requiredScope(req);
+  if (!scope || !hasScope(apiToken, scope)) {
+    sendError(res, new ForbiddenError("API token is missing the required scope", { code: "missing_scope", requiredScope: scope }));
+    return false;
+  }
+  
+  const { allowed, retryAfterSeconds } = consumeRateLimit(apiToken);
+  if (!allowed) {
+    res.set("Retry-After", retryAfterSeconds.toString());
+    sendError(res, new TooManyRequestsError("API token rate limit exceeded", { retryAfterSeconds }));
+    return false;
+  }
+  
+  if (shouldTouchApiToken(apiToken)) {
+    await storage.touchApiToken(apiToken.id, new Date());
+  }
+  
+  req.user = user;
+  req.apiToken = apiToken;
+  return true;
+};
+
+// Helper to verify user is authenticated, by session cookie or by API token
+const ensureAuthenticated = async (req: Request, res: Response, next: Function) => {
+  try {
+    if (!req.isAuthenticated() && !(await authenticateApiToken(req, res))) {
+      return;
+    }
+    
+    // Unverified accounts can read but not change anything outside /api/auth
+    const write = !["GET", "HEAD", "OPTIONS"].includes(req.method);
+    if (write && !req.path.startsWith("/api/auth/") && !isEmailVerified(req.user!)) {
+      return sendError(res, new ForbiddenError("Please verify your email address first", { code: "email_not_verified" }));
+    }
+    
+    next();
+  } catch (error) {
+    sendError(res, error);
+  }
+};
+
+// Helper to block creating more of a resource than the user's plan allows.
+// Must run after ensureAuthenticated (and after multer for uploads).
+const ensureWithinQuota = (resource: QuotaResource, requested: (req: Request) => number = () => 1) =>
+  async (req: Request, res: Response, next: Function) => {
+    try {
+      const blocked = await checkQuota(storage, req.user!, resource, requested(req));
+      if (blocked) {
+        return sendError(res, blocked);
+      }
+      next();
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+
+// Helper to record a change to a trade or collection in the audit log.
+// Like security events, a failed write never fails the request.
+const recordAudit = async (
+  req: Request,
+  entityType: AuditEntityType,
+  entityId: number,
+  action: AuditAction,
+  before: object | null,
+  after: object | null,
+  restoredVersion: number | null = null
+) => {
+  try {
+    const actor = { userId: req.user!.id, apiTokenId: req.apiToken?.id ?? null };
+    await recordChange(storage, actor, entityType, entityId, action, before, after, restoredVersion);
+  } catch (error) {
+    console.error("Error writing audit entry:", error);
+  }
+};
+
+// Helper to write a security event. Logging problems never fail the request.
+const logSecurityEvent = async (event: Omit<SecurityEvent, "at">) => {
+  try {
+    await securityLog.record(event);
+  } catch (error) {
+    console.error("Error writing security event:", error);
+  }
+};
+
+// Helper to count a failed auth attempt against the throttle and log it,
+// along with any lockout the failure triggered
+const recordAuthFailure = async (req: Request, keys: ThrottleKey[], event: Omit<SecurityEvent, "at" | "ip">) => {
+  const lockedOut = await loginThrottle.recordFailure(keys);
+  await logSecurityEvent({ ...event, ip: req.ip });
+  for (const key of lockedOut) {
+    await logSecurityEvent({ type: key.kind === "ip" ? "ip_locked" : "account_locked", ip: req.ip, email: event.email });
+  }
+};
+
+const sendTooManyAttempts = (res: Response, status: ThrottleStatus) => {
+  res.set("Retry-After", status.retryAfterSeconds.toString());
+  sendError(res, new TooManyRequestsError("Too many attempts, please try again later", {
+    retryAfterSeconds: status.retryAfterSeconds
+  }));
+};
+
+const loginThrottleKeys = (req: Request, email?: string): ThrottleKey[] => [
+  { kind: "ip", id: req.ip || "unknown" },
+  ...(email ? [{ kind: "account" as const, id: email }] : []),
+];
+
+// A TOTP code from the authenticator app, or one of the recovery codes
+const secondFactorSchema = z.object({
+  code: z.string().min(1).optional(),
+  recoveryCode: z.string().min(1).optional(),
+}).refine((input) => input.code || input.recoveryCode, { message: "Provide a code or a recovery code" });
+
+// Request bodies and queries checked inside their handlers, shared with the
+// OpenAPI document. Passport reads the login body itself.
+const loginSchema = z.object({ email: z.string().email(), password: z.string().min(1) });
+const totpCodeSchema = z.object({ code: z.string().min(1) });
+const disableTwoFactorSchema = secondFactorSchema.and(z.object({ password: z.string().min(1) }));
+const verifyEmailSchema = z.object({ token: z.string().min(1) });
+const passwordResetRequestSchema = z.object({ email: z.string().email() });
+const passwordResetSchema = insertUserSchema.pick({ password: true }).extend({ token: z.string().min(1) });
+const deleteAccountSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().min(1).optional(),
+  recoveryCode: z.string().min(1).optional(),
+});
+const settingsSchema = z.object({ baseCurrency: currencySchema });
+const summaryQuerySchema = analyticsFilterSchema.extend({ timezone: timezoneSchema });
+const collectionSummaryQuerySchema = summaryQuerySchema.omit({ collectionId: true });
+const tagAnalyticsQuerySchema = summaryQuerySchema.extend({ category: z.enum(tagCategories).optional() });
+const tradeImportSchema = z.object({
+  csv: z.string().optional(),
+  profile: z.string().optional(),
+  collectionId: z.string().optional(),
+  // Timezone of dates without an offset, instead of the profile's
+  timezone: timezoneSchema.optional(),
+});
+const paymentIntentSchema = z.object({ amount: z.number() });
+
+const countUploads = (req: Request) => (Array.isArray(req.files) ? req.files.length : 1);
+
+// Helper to block features the user's plan does not include
+const ensureFeature = (feature: Feature) => (req: Request, res: Response, next: Function) => {
+  const blocked = checkFeature(req.user!, feature);
+  if (blocked) {
+    return sendError(res, blocked);
   }
-  res.status(401).json({ message: "Unauthorized" });
+  next();
 };
 
+// The OpenAPI document for the recorded routes
+export const buildApiDocument = (routes: ApiRoute[]) =>
+  buildOpenApiDocument(routes, {
+    title: "Cold Harbor API",
+    version: "1.0.0",
+    routes: apiRoutes,
+    schemas: apiSchemas,
+    authenticate: [ensureAuthenticated],
+  });
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  storage = createStorage();
+
   // Configure session
   app.use(
     session({
-      secret: process.env.SESSION_SECRET || "trade-journal-secret",
+      secret: sessionSecret(),
+      store: new StorageSessionStore(storage),
       resave: false,
       saveUninitialized: false,
-      cookie: { secure: process.env.NODE_ENV === "production" }
+      cookie: {
+        secure: process.env.NODE_ENV === "production",
+        httpOnly: true,
+        sameSite: "lax",
+        maxAge: SESSION_TTL_MS
+      }
     })
   );
 
+  // Permanently remove trash older than the retention window
+  startTrashSweep(storage, attachmentStore);
+
   // Initialize passport
   app.use(passport.initialize());
   app.use(passport.session());
@@ -69,7 +308,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     )
   );
 
-  passport.serializeUser((user: any, done) => {
+  passport.serializeUser((user, done) => {
     done(null, user.id);
   });
 
@@ -82,6 +321,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  registerApiRoutes(new RouteRecorder(app));
+
+  const httpServer = createServer(app);
+  return httpServer;
+}
+
+// The API's routes. The server registers them on its app, the API client
+// generator records them without one.
+export function registerApiRoutes(app: RouteRecorder) {
+  // The OpenAPI document, built on the first request once every route is
+  // registered
+  let apiDocument: JsonSchema | undefined;
+  app.get("/api/openapi.json", (req, res) => {
+    apiDocument ??= buildApiDocument(app.routes);
+    res.json(apiDocument);
+  });
+
   // Test route to create a test user (development only)
   app.get("/api/create-test-user", async (req, res) => {
     try {
@@ -105,8 +361,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         avatar: null
       });
       
-      // Remove password from response
-      const { password: _, ...safeUser } = user;
+      // Remove password and 2FA secrets from response
+      const safeUser = toPublicUser(user);
       
       return res.status(201).json({
         message: "Test user created successfully",
@@ -116,19 +372,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
           password: "test123"
         }
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error creating test user:", error);
-      return res.status(500).json({ message: error.message || "Internal server error" });
+      return sendError(res, error);
     }
   });
 
   // Auth routes
-  app.post("/api/auth/register", async (req, res) => {
+  app.post("/api/auth/register", documentRequest({ body: insertUserSchema }), async (req, res) => {
     try {
+      const throttleKey: ThrottleKey = { kind: "register", id: req.ip || "unknown" };
+      const status = await loginThrottle.check([throttleKey]);
+      if (!status.allowed) {
+        await logSecurityEvent({ type: "register_blocked", ip: req.ip, email: req.body?.email });
+        return sendTooManyAttempts(res, status);
+      }
+      
+      // Every attempt counts, successful ones included, so one address can't
+      // mass-create accounts or probe which emails are registered
+      await loginThrottle.recordFailure([throttleKey]);
+      
       const validateResult = insertUserSchema.safeParse(req.body);
       
       if (!validateResult.success) {
-        return res.status(400).json({ message: "Invalid user data", errors: validateResult.error.errors });
+        return sendError(res, ValidationError.fromZod("Invalid user data", validateResult.error));
       }
       
       const { email, username, password } = validateResult.data;
@@ -136,299 +403,1837 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(email);
       if (existingUser) {
-        return res.status(400).json({ message: "Email already registered" });
+        return sendError(res, new BadRequestError("Email already registered"));
       }
       
       const existingUsername = await storage.getUserByUsername(username);
       if (existingUsername) {
-        return res.status(400).json({ message: "Username already taken" });
+        return sendError(res, new BadRequestError("Username already taken"));
       }
       
       // Hash password
       const hashedPassword = await hash(password, 10);
       
       // Create user
-      const user = await storage.createUser({
+      const createdUser = await storage.createUser({
         ...validateResult.data,
         password: hashedPassword,
       });
+      const user = await storage.setUserEmailVerified(createdUser.id, false);
+      
+      try {
+        await sendVerificationEmail(mailer, user);
+      } catch (error) {
+        // The user can ask for another verification email later
+        console.error("Error sending verification email:", error);
+      }
       
-      // Remove password from response
-      const { password: _, ...safeUser } = user;
+      // Remove password and 2FA secrets from response
+      const safeUser = toPublicUser(user);
       
       return res.status(201).json(safeUser);
-    } catch (error: any) {
+    } catch (error) {
       console.error("Register error:", error);
-      return res.status(500).json({ message: error.message || "Internal server error" });
+      return sendError(res, error);
     }
   });
 
-  app.post("/api/auth/login", (req, res, next) => {
-    passport.authenticate("local", (err: Error, user: any, info: any) => {
+  app.post("/api/auth/login", documentRequest({ body: loginSchema }), async (req, res, next) => {
+    const email = typeof req.body?.email === "string" ? req.body.email.trim() : undefined;
+    const throttleKeys = loginThrottleKeys(req, email);
+    
+    try {
+      const status = await loginThrottle.check(throttleKeys);
+      if (!status.allowed) {
+        await logSecurityEvent({ type: "login_blocked", ip: req.ip, email });
+        return sendTooManyAttempts(res, status);
+      }
+    } catch (error) {
+      return next(error);
+    }
+    
+    passport.authenticate("local", async (err: Error, user: User | false, info: any) => {
       if (err) {
         return next(err);
       }
       if (!user) {
-        return res.status(401).json({ message: info.message });
+        try {
+          await recordAuthFailure(req, throttleKeys, { type: "login_failed", email, reason: info?.message });
+        } catch (error) {
+          return next(error);
+        }
+        return sendError(res, new UnauthorizedError(info?.message || "Invalid email or password"));
       }
+      
+      // With 2FA the password only opens a challenge, the session is
+      // established once a code is verified
+      if (isTwoFactorEnabled(user)) {
+        const expiresAt = Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS;
+        req.session.twoFactorChallenge = { userId: user.id, expiresAt, attempts: 0 };
+        return res.json({ twoFactorRequired: true, expiresAt: new Date(expiresAt) });
+      }
+      
+      try {
+        await loginThrottle.reset({ kind: "account", id: user.email });
+      } catch (error) {
+        return next(error);
+      }
+      
       req.logIn(user, (err) => {
         if (err) {
           return next(err);
         }
         
-        // Remove password from response
-        const { password, ...safeUser } = user;
-        return res.json(safeUser);
+        req.session.client = sessionClientInfo(req);
+        return res.json(toPublicUser(user));
       });
     })(req, res, next);
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    req.logout((err) => {
-      if (err) {
-        return res.status(500).json({ message: "Error logging out" });
+  app.post("/api/auth/login/verify", documentRequest({ body: secondFactorSchema }), async (req, res, next) => {
+    try {
+      const validateResult = secondFactorSchema.safeParse(req.body);
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid verification code", validateResult.error));
       }
-      res.json({ message: "Logged out successfully" });
-    });
-  });
-
-  app.get("/api/auth/current-user", (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
+      
+      const challenge = req.session.twoFactorChallenge;
+      if (!challenge || challenge.expiresAt < Date.now()) {
+        delete req.session.twoFactorChallenge;
+        return sendError(res, new UnauthorizedError("Login challenge expired, please sign in again"));
+      }
+      
+      const user = await storage.getUser(challenge.userId);
+      if (!user) {
+        delete req.session.twoFactorChallenge;
+        return sendError(res, new UnauthorizedError("Login challenge expired, please sign in again"));
+      }
+      
+      // Code failures count against the account too, otherwise someone with
+      // the password could keep requesting fresh challenges
+      const throttleKeys = loginThrottleKeys(req, user.email);
+      const status = await loginThrottle.check(throttleKeys);
+      if (!status.allowed) {
+        await logSecurityEvent({ type: "login_blocked", ip: req.ip, email: user.email, userId: user.id });
+        return sendTooManyAttempts(res, status);
+      }
+      
+      const result = verifySecondFactor(user, validateResult.data);
+      if (!result.ok) {
+        await recordAuthFailure(req, throttleKeys, { type: "two_factor_failed", email: user.email, userId: user.id });
+        challenge.attempts += 1;
+        if (challenge.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.twoFactorChallenge;
+          return sendError(res, new UnauthorizedError("Too many invalid codes, please sign in again"));
+        }
+        return sendError(res, new UnauthorizedError("Invalid authentication code"));
+      }
+      
+      const updatedUser = await storage.updateUserTwoFactor(user.id, result.update);
+      await loginThrottle.reset({ kind: "account", id: user.email });
+      delete req.session.twoFactorChallenge;
+      
+      req.logIn(updatedUser, (err) => {
+        if (err) {
+          return next(err);
+        }
+        
+        req.session.client = sessionClientInfo(req);
+        return res.json(toPublicUser(updatedUser));
+      });
+    } catch (error) {
+      sendError(res, error);
     }
-    
-    const { password, ...safeUser } = req.user as any;
-    res.json(safeUser);
   });
 
-  // Trade routes
-  app.get("/api/trades", ensureAuthenticated, async (req, res) => {
+  // Two-factor enrollment. Setup stores a pending secret, which only becomes
+  // active once the user proves their authenticator app produces valid codes.
+  app.post("/api/auth/2fa/setup", ensureAuthenticated, async (req, res) => {
     try {
-      const userId = (req.user as any).id;
-      const trades = await storage.getUserTrades(userId);
-      res.json(trades);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      const user = req.user!;
+      if (isTwoFactorEnabled(user)) {
+        return sendError(res, new BadRequestError("Two-factor authentication is already enabled"));
+      }
+      
+      const secret = generateTotpSecret();
+      await storage.updateUserTwoFactor(user.id, { twoFactorPendingSecret: encryptSecret(secret) });
+      
+      res.json({ secret, otpauthUri: provisioningUri(secret, user.email) });
+    } catch (error) {
+      sendError(res, error);
     }
   });
 
-  app.post("/api/trades", ensureAuthenticated, async (req, res) => {
+  app.post("/api/auth/2fa/confirm", ensureAuthenticated, documentRequest({ body: totpCodeSchema }), async (req, res) => {
     try {
-      const userId = (req.user as any).id;
-      const validateResult = insertTradeSchema.safeParse({
-        ...req.body,
-        userId
-      });
+      const validateResult = totpCodeSchema.safeParse(req.body);
       
       if (!validateResult.success) {
-        return res.status(400).json({ message: "Invalid trade data", errors: validateResult.error.errors });
+        return sendError(res, ValidationError.fromZod("Invalid verification code", validateResult.error));
       }
       
-      const trade = await storage.createTrade(validateResult.data);
-      res.status(201).json(trade);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
-    }
-  });
-
-  app.get("/api/trades/:id", ensureAuthenticated, async (req, res) => {
-    try {
-      const trade = await storage.getTrade(parseInt(req.params.id));
-      
-      if (!trade) {
-        return res.status(404).json({ message: "Trade not found" });
+      const user = req.user as TwoFactorUser;
+      if (isTwoFactorEnabled(user)) {
+        return sendError(res, new BadRequestError("Two-factor authentication is already enabled"));
+      }
+      if (!user.twoFactorPendingSecret) {
+        return sendError(res, new BadRequestError("Start two-factor setup first"));
       }
       
-      const userId = (req.user as any).id;
-      if (trade.userId !== userId) {
-        return res.status(403).json({ message: "Forbidden" });
+      const step = verifyTotp(decryptSecret(user.twoFactorPendingSecret), validateResult.data.code);
+      if (step === null) {
+        return sendError(res, new BadRequestError("Invalid authentication code"));
       }
       
-      res.json(trade);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, {
+        twoFactorEnabled: true,
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorPendingSecret: null,
+        twoFactorRecoveryCodes: hashes,
+        twoFactorLastStep: step,
+      });
+      
+      // Recovery codes are only stored hashed, this is the one time they're shown
+      res.json({ message: "Two-factor authentication enabled", recoveryCodes: codes });
+    } catch (error) {
+      sendError(res, error);
     }
   });
 
-  app.put("/api/trades/:id", ensureAuthenticated, async (req, res) => {
+  app.post("/api/auth/2fa/recovery-codes", ensureAuthenticated, documentRequest({ body: secondFactorSchema }), async (req, res) => {
     try {
-      const tradeId = parseInt(req.params.id);
-      const trade = await storage.getTrade(tradeId);
+      const validateResult = secondFactorSchema.safeParse(req.body);
       
-      if (!trade) {
-        return res.status(404).json({ message: "Trade not found" });
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid verification code", validateResult.error));
       }
       
-      const userId = (req.user as any).id;
-      if (trade.userId !== userId) {
-        return res.status(403).json({ message: "Forbidden" });
+      const user = req.user!;
+      if (!isTwoFactorEnabled(user)) {
+        return sendError(res, new BadRequestError("Two-factor authentication is not enabled"));
       }
       
-      const updatedTrade = await storage.updateTrade(tradeId, req.body);
-      res.json(updatedTrade);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      const result = verifySecondFactor(user, validateResult.data);
+      if (!result.ok) {
+        return sendError(res, new UnauthorizedError("Invalid authentication code"));
+      }
+      
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, { ...result.update, twoFactorRecoveryCodes: hashes });
+      
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      sendError(res, error);
     }
   });
 
-  app.delete("/api/trades/:id", ensureAuthenticated, async (req, res) => {
+  // Turning 2FA off needs the password and a current code, a hijacked
+  // session alone is not enough
+  app.post("/api/auth/2fa/disable", ensureAuthenticated, documentRequest({ body: disableTwoFactorSchema }), async (req, res) => {
     try {
-      const tradeId = parseInt(req.params.id);
-      const trade = await storage.getTrade(tradeId);
+      const validateResult = disableTwoFactorSchema.safeParse(req.body);
       
-      if (!trade) {
-        return res.status(404).json({ message: "Trade not found" });
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid request", validateResult.error));
       }
       
-      const userId = (req.user as any).id;
-      if (trade.userId !== userId) {
-        return res.status(403).json({ message: "Forbidden" });
+      const user = req.user!;
+      if (!isTwoFactorEnabled(user)) {
+        return sendError(res, new BadRequestError("Two-factor authentication is not enabled"));
       }
       
-      await storage.deleteTrade(tradeId);
-      res.json({ message: "Trade deleted successfully" });
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      const isPasswordValid = await compare(validateResult.data.password, user.password);
+      if (!isPasswordValid || !verifySecondFactor(user, validateResult.data).ok) {
+        return sendError(res, new UnauthorizedError("Invalid password or authentication code"));
+      }
+      
+      await storage.updateUserTwoFactor(user.id, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorPendingSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastStep: null,
+      });
+      
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      sendError(res, error);
     }
   });
 
-  // Collection routes
-  app.get("/api/collections", ensureAuthenticated, async (req, res) => {
+  app.post("/api/auth/verify-email/request", ensureAuthenticated, async (req, res) => {
     try {
-      const userId = (req.user as any).id;
-      const collections = await storage.getUserCollections(userId);
-      res.json(collections);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      const user = req.user!;
+      if (isEmailVerified(user)) {
+        return sendError(res, new BadRequestError("Email already verified"));
+      }
+      
+      await sendVerificationEmail(mailer, user);
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      sendError(res, error);
     }
   });
 
-  app.post("/api/collections", ensureAuthenticated, async (req, res) => {
+  app.post("/api/auth/verify-email", documentRequest({ body: verifyEmailSchema }), async (req, res) => {
     try {
-      const userId = (req.user as any).id;
-      const validateResult = insertCollectionSchema.safeParse({
-        ...req.body,
-        userId
-      });
+      const validateResult = verifyEmailSchema.safeParse(req.body);
       
       if (!validateResult.success) {
-        return res.status(400).json({ message: "Invalid collection data", errors: validateResult.error.errors });
+        return sendError(res, ValidationError.fromZod("Invalid verification request", validateResult.error));
       }
       
-      const collection = await storage.createCollection(validateResult.data);
-      res.status(201).json(collection);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      const user = await consumeAccountToken(storage, validateResult.data.token, "verify-email");
+      if (!user) {
+        return sendError(res, new BadRequestError("Verification link is invalid or has expired"));
+      }
+      
+      await storage.setUserEmailVerified(user.id, true);
+      res.json({ message: "Email verified successfully" });
+    } catch (error) {
+      sendError(res, error);
     }
   });
 
-  app.get("/api/collections/:id", ensureAuthenticated, async (req, res) => {
+  app.post("/api/auth/password-reset/request", documentRequest({ body: passwordResetRequestSchema }), async (req, res) => {
     try {
-      const collection = await storage.getCollection(parseInt(req.params.id));
+      const validateResult = passwordResetRequestSchema.safeParse(req.body);
       
-      if (!collection) {
-        return res.status(404).json({ message: "Collection not found" });
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid email", validateResult.error));
       }
       
-      const userId = (req.user as any).id;
-      if (collection.userId !== userId) {
-        return res.status(403).json({ message: "Forbidden" });
+      const user = await storage.getUserByEmail(validateResult.data.email);
+      if (user) {
+        // Not awaited: a slow or failed delivery would tell the caller the
+        // email is registered
+        sendPasswordResetEmail(mailer, user).catch((error) => {
+          console.error("Failed to send password reset email:", error);
+        });
       }
       
-      res.json(collection);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      // Same answer either way, so this can't be used to find registered emails
+      res.json({ message: "If that email is registered, a reset link is on its way" });
+    } catch (error) {
+      sendError(res, error);
     }
   });
 
-  app.get("/api/collections/:id/trades", ensureAuthenticated, async (req, res) => {
+  app.post("/api/auth/password-reset", documentRequest({ body: passwordResetSchema }), async (req, res) => {
     try {
-      const collectionId = parseInt(req.params.id);
-      const collection = await storage.getCollection(collectionId);
+      const validateResult = passwordResetSchema.safeParse(req.body);
       
-      if (!collection) {
-        return res.status(404).json({ message: "Collection not found" });
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid password reset request", validateResult.error));
       }
       
-      const userId = (req.user as any).id;
-      if (collection.userId !== userId) {
-        return res.status(403).json({ message: "Forbidden" });
+      const { token, password } = validateResult.data;
+      const user = await consumeAccountToken(storage, token, "reset-password");
+      if (!user) {
+        return sendError(res, new BadRequestError("Reset link is invalid or has expired"));
       }
       
-      const trades = await storage.getCollectionTrades(collectionId);
-      res.json(trades);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      const hashedPassword = await hash(password, 10);
+      await storage.updateUserPassword(user.id, hashedPassword);
+      
+      // Sign out everywhere, an attacker may be holding one of the sessions
+      await storage.deleteUserSessions(user.id);
+      
+      // Receiving the reset email proves the user owns the address
+      if (!isEmailVerified(user)) {
+        await storage.setUserEmailVerified(user.id, true);
+      }
+      
+      res.json({ message: "Password updated successfully" });
+    } catch (error) {
+      sendError(res, error);
     }
   });
 
-  app.put("/api/collections/:id", ensureAuthenticated, async (req, res) => {
+  app.post("/api/auth/logout", (req, res) => {
+    req.logout((err) => {
+      if (err) {
+        return sendError(res, new HttpError(500, "internal_error", "Error logging out"));
+      }
+      res.json({ message: "Logged out successfully" });
+    });
+  });
+  
+  app.delete("/api/auth/account", ensureAuthenticated, documentRequest({ body: deleteAccountSchema }), async (req, res) => {
     try {
-      const collectionId = parseInt(req.params.id);
-      const collection = await storage.getCollection(collectionId);
+      const validateResult = deleteAccountSchema.safeParse(req.body);
       
-      if (!collection) {
-        return res.status(404).json({ message: "Collection not found" });
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid request", validateResult.error));
       }
       
-      const userId = (req.user as any).id;
-      if (collection.userId !== userId) {
-        return res.status(403).json({ message: "Forbidden" });
+      const user = req.user!;
+      const isPasswordValid = await compare(validateResult.data.password, user.password);
+      const secondFactorValid = !isTwoFactorEnabled(user) || verifySecondFactor(user, validateResult.data).ok;
+      if (!isPasswordValid || !secondFactorValid) {
+        return sendError(res, new UnauthorizedError(
+          isTwoFactorEnabled(user) ? "Invalid password or authentication code" : "Invalid password"
+        ));
       }
       
-      const updatedCollection = await storage.updateCollection(collectionId, req.body);
-      res.json(updatedCollection);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      // Stop billing before the data goes, a failed cancel leaves the account intact
+      if (user.stripeSubscriptionId) {
+        if (!stripe) {
+          return sendError(res, new ServiceUnavailableError("Billing is unavailable, the subscription could not be canceled"));
+        }
+        await cancelStripeSubscription(stripe, user);
+        // If deleting the data fails part way, the account stays on the free plan
+        await clearSubscription(storage, user);
+      }
+      
+      const deleted = await deleteUserAccount(storage, attachmentStore, user.id);
+      await logSecurityEvent({ type: "account_deleted", userId: user.id, email: user.email, ip: req.ip });
+      
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ message: "Account deleted", deleted });
+      });
+    } catch (error) {
+      sendError(res, error);
     }
   });
 
-  app.delete("/api/collections/:id", ensureAuthenticated, async (req, res) => {
+  app.get("/api/auth/current-user", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return sendError(res, new UnauthorizedError("Not authenticated"));
+    }
+    
     try {
-      const collectionId = parseInt(req.params.id);
-      const collection = await storage.getCollection(collectionId);
+      const safeUser = toPublicUser(req.user!);
+      const limits = planLimits(req.user!);
+      const usage = await getUsage(storage, safeUser.id);
       
-      if (!collection) {
-        return res.status(404).json({ message: "Collection not found" });
-      }
+      res.json({
+        ...safeUser,
+        baseCurrency: baseCurrency(req.user!),
+        planType: userPlan(req.user!),
+        entitlements: {
+          features: limits.features,
+          quotas: limits.quotas,
+          usage
+        }
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.put("/api/auth/settings", ensureAuthenticated, documentRequest({ body: settingsSchema }), async (req, res) => {
+    try {
+      const validateResult = settingsSchema.safeParse(req.body);
       
-      const userId = (req.user as any).id;
-      if (collection.userId !== userId) {
-        return res.status(403).json({ message: "Forbidden" });
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid settings", validateResult.error));
       }
       
-      await storage.deleteCollection(collectionId);
-      res.json({ message: "Collection deleted successfully" });
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      const user = await storage.updateUserBaseCurrency(req.user!.id, validateResult.data.baseCurrency);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      sendError(res, error);
     }
   });
 
-  // Stripe payment routes
-  if (stripe) {
-    app.post("/api/create-payment-intent", ensureAuthenticated, async (req, res) => {
-      try {
-        const { amount } = req.body;
-        const paymentIntent = await stripe.paymentIntents.create({
-          amount: Math.round(amount * 100), // Convert to cents
-          currency: "usd",
-        });
-        res.json({ clientSecret: paymentIntent.client_secret });
-      } catch (error: any) {
-        res
-          .status(500)
-          .json({ message: "Error creating payment intent: " + error.message });
-      }
-    });
+  // Commission schedules are stored on the user and replaced as a whole
+  app.get("/api/auth/commission-schedules", ensureAuthenticated, async (req, res) => {
+    res.json(userCommissionSchedules(req.user!));
+  });
 
-    app.post('/api/create-subscription', ensureAuthenticated, async (req, res) => {
-      try {
-        const user = req.user as any;
-        const { planId } = req.body;
-        
-        if (!planId) {
-          return res.status(400).json({ message: "Plan ID is required" });
-        }
+  app.put("/api/auth/commission-schedules", ensureAuthenticated, documentRequest({ body: commissionSchedulesSchema }), async (req, res) => {
+    try {
+      const validateResult = commissionSchedulesSchema.safeParse(req.body);
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid commission schedules", validateResult.error));
+      }
+      
+      const user = await storage.updateUserCommissionSchedules(req.user!.id, validateResult.data);
+      res.json(userCommissionSchedules(user));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Session routes. Like tokens, these are out of reach of API tokens.
+  app.get("/api/auth/sessions", ensureAuthenticated, async (req, res) => {
+    try {
+      const user = req.user!;
+      const sessions = await storage.getUserSessions(user.id);
+      
+      res.json(
+        sessions
+          .map((session) => toPublicSession(session, req.sessionID))
+          .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+      );
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Sign out every session except the one making the request
+  app.delete("/api/auth/sessions", ensureAuthenticated, async (req, res) => {
+    try {
+      const user = req.user!;
+      const revoked = await storage.deleteUserSessions(user.id, req.sessionID);
+      
+      res.json({ message: "Other sessions signed out", revoked });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", ensureAuthenticated, documentRequest({ params: z.object({ id: z.string() }) }), async (req, res) => {
+    try {
+      const user = req.user!;
+      const sessions = await storage.getUserSessions(user.id);
+      const session = sessions.find((s) => publicSessionId(s.sid) === req.params.id);
+      
+      if (!session) {
+        return sendError(res, new NotFoundError("Session not found"));
+      }
+      
+      if (session.sid === req.sessionID) {
+        return req.session.destroy((err) => {
+          if (err) {
+            return sendError(res, new HttpError(500, "internal_error", "Error signing out"));
+          }
+          res.json({ message: "Session signed out" });
+        });
+      }
+      
+      await storage.deleteSession(session.sid);
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // API token routes. Tokens can't be used to manage tokens, requiredScope
+  // has no scope for /api/auth.
+  app.get("/api/auth/tokens", ensureAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const tokens = await storage.getUserApiTokens(userId);
+      res.json(tokens.map(toPublicApiToken));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.post("/api/auth/tokens", ensureAuthenticated, documentRequest({ body: createApiTokenSchema }), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validateResult = createApiTokenSchema.safeParse(req.body);
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid token data", validateResult.error));
+      }
+      
+      const token = generateApiToken();
+      const apiToken = await storage.createApiToken({
+        ...validateResult.data,
+        userId,
+        tokenHash: hashApiToken(token),
+        prefix: token.slice(0, 10),
+        lastUsedAt: null
+      });
+      
+      // The plain token is only ever shown once
+      res.status(201).json({ ...toPublicApiToken(apiToken), token });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.delete("/api/auth/tokens/:id", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const tokenId = parseInt(req.params.id);
+      const apiToken = await storage.getApiToken(tokenId);
+      
+      if (!apiToken) {
+        return sendError(res, new NotFoundError("API token not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (apiToken.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      await storage.deleteApiToken(tokenId);
+      res.json({ message: "API token revoked successfully" });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Trade routes
+  app.get("/api/trades", ensureAuthenticated, documentRequest({ query: tradeQuerySchema }), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validateResult = tradeQuerySchema.safeParse(req.query);
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid trade query", validateResult.error));
+      }
+      
+      // Callers from before paging get every matching trade in an array
+      const query = validateResult.data;
+      if (query.limit === undefined && query.cursor === undefined) {
+        const { trades } = await storage.queryUserTrades(userId, query);
+        return res.json(trades);
+      }
+      
+      const page = await storage.queryUserTrades(userId, { ...query, limit: query.limit ?? DEFAULT_TRADE_PAGE_SIZE });
+      res.json(page);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.post("/api/trades", ensureAuthenticated, ensureWithinQuota("trades"), documentRequest({ body: createTradeSchema }), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const instrumentResult = tradeInstrumentSchema.safeParse(req.body);
+      
+      if (!instrumentResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid trade data", instrumentResult.error));
+      }
+      
+      const instrument = instrumentResult.data;
+      const validateResult = insertTradeSchema
+        .extend({ currency: currencySchema.default(baseCurrency(req.user!)) })
+        .merge(tradeFeesSchema)
+        .safeParse({
+          ...req.body,
+          // A spread's side and prices are its net debit or credit
+          ...(instrument.legs && spreadPrices(instrument.legs)),
+          userId
+        });
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid trade data", validateResult.error));
+      }
+      
+      // Without an explicit commission, estimate it from the user's schedules
+      const tradeData = { ...validateResult.data, ...instrument };
+      const tradeInput = tradeData.commission === undefined
+        ? { ...tradeData, ...commissionFromSchedules(req.user!, tradeData) }
+        : tradeData;
+      
+      const trade = await storage.createTrade(tradeInput);
+      await recordAudit(req, "trade", trade.id, "create", null, trade);
+      res.status(201).json(trade);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.post("/api/trades/import", ensureAuthenticated, ensureFeature("csvImport"), ensureWithinQuota("trades"), upload.single("file"), documentRequest({ body: tradeImportSchema }), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const csv = req.file ? req.file.buffer.toString("utf-8") : req.body.csv;
+      
+      if (!csv || typeof csv !== "string") {
+        return sendError(res, new BadRequestError("A CSV file is required"));
+      }
+      
+      const profileName = req.body.profile || "generic";
+      const profile = await resolveImportProfile(storage, userId, profileName);
+      
+      if (!profile) {
+        return sendError(res, new BadRequestError(`Unknown import profile "${profileName}"`));
+      }
+      
+      const timezoneResult = timezoneSchema.optional().safeParse(req.body.timezone || undefined);
+      if (!timezoneResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid timezone", timezoneResult.error));
+      }
+      
+      let collectionId: number | null = null;
+      if (req.body.collectionId) {
+        collectionId = parseInt(req.body.collectionId);
+        const collection = await storage.getCollection(collectionId);
+        
+        if (!collection) {
+          return sendError(res, new NotFoundError("Collection not found"));
+        }
+        
+        if (collection.userId !== userId) {
+          return sendError(res, new ForbiddenError());
+        }
+      }
+      
+      const maxTrades = await remainingQuota(storage, req.user!, "trades");
+      const result = await importTrades(storage, {
+        userId,
+        csv,
+        profile,
+        collectionId,
+        maxTrades,
+        currency: baseCurrency(req.user!),
+        timezone: timezoneResult.data
+      });
+      for (const trade of result.trades) {
+        await recordAudit(req, "trade", trade.id, "create", null, trade);
+      }
+      res.status(result.imported > 0 ? 201 : 200).json(result);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  const validateBulkTrades = validate({ body: bulkTradeSchema }, "Invalid bulk request");
+  app.post("/api/trades/bulk", ensureAuthenticated, validateBulkTrades, async (req, res) => {
+    try {
+      const request = validatedRequest(req, validateBulkTrades).body;
+      const userId = req.user!.id;
+      
+      const tagIds = bulkTagIds(request);
+      if (tagIds.length > 0) {
+        const userTagIds = new Set((await storage.getUserTags(userId)).map((tag) => tag.id));
+        const unknownTagIds = tagIds.filter((id) => !userTagIds.has(id));
+        
+        if (unknownTagIds.length > 0) {
+          return sendError(res, new BadRequestError(`Unknown tags: ${unknownTagIds.join(", ")}`));
+        }
+      }
+      
+      if (request.action === "move" && request.collectionId !== null) {
+        const collection = await storage.getCollection(request.collectionId);
+        
+        if (!collection) {
+          return sendError(res, new NotFoundError("Collection not found"));
+        }
+        
+        if (collection.userId !== userId) {
+          return sendError(res, new ForbiddenError());
+        }
+      }
+      
+      // One trade the user can't change rejects the whole batch
+      const { results, previous } = await applyBulkTradeRequest(storage, userId, request);
+      const auditAction = request.action === "delete" ? "delete" : "update";
+      const before = new Map(previous.map((trade) => [trade.id, trade]));
+      for (const result of results) {
+        await recordAudit(req, "trade", result.id, auditAction, before.get(result.id) ?? null, result.trade ?? null);
+      }
+      res.json({ action: request.action, results });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.get("/api/trades/:id", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const trade = await storage.getTrade(parseInt(req.params.id));
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      res.json(trade);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  const validateTradeUpdate = validate({ params: idParamsSchema, body: updateTradeSchema }, "Invalid trade data");
+  app.put("/api/trades/:id", ensureAuthenticated, validateTradeUpdate, async (req, res) => {
+    try {
+      const { params, body } = validatedRequest(req, validateTradeUpdate);
+      const tradeId = params.id;
+      const trade = await storage.getTrade(tradeId);
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const tradeUpdate: Record<string, any> = { ...body };
+      if (tradeUpdate.collectionId != null && tradeUpdate.collectionId !== trade.collectionId) {
+        const collection = await storage.getCollection(tradeUpdate.collectionId);
+        
+        if (!collection) {
+          return sendError(res, new NotFoundError("Collection not found"));
+        }
+        
+        if (collection.userId !== userId) {
+          return sendError(res, new ForbiddenError());
+        }
+      }
+      
+      // Instrument rules depend on several fields, check the trade as it
+      // will be after the update
+      if (instrumentFields.some((field) => field in tradeUpdate)) {
+        const instrumentResult = tradeInstrumentSchema.safeParse({ ...trade, ...tradeUpdate });
+        if (!instrumentResult.success) {
+          return sendError(res, ValidationError.fromZod("Invalid trade data", instrumentResult.error));
+        }
+        
+        const instrument = instrumentResult.data;
+        for (const field of instrumentFields) {
+          if (field in tradeUpdate) tradeUpdate[field] = instrument[field];
+        }
+        if (instrument.legs) {
+          Object.assign(tradeUpdate, spreadPrices(instrument.legs));
+        }
+      }
+      
+      // A commission estimated from a schedule follows changes to size and
+      // prices; an explicit one replaces the estimate
+      const scheduleName = (trade as any).commissionSchedule;
+      if (tradeUpdate.commission !== undefined) {
+        tradeUpdate.commissionSchedule = null;
+      } else if (scheduleName) {
+        const schedule = userCommissionSchedules(req.user!).find((s) => s.name === scheduleName);
+        if (schedule) {
+          tradeUpdate.commission = scheduledCommission(schedule, { ...trade, ...tradeUpdate });
+        }
+      }
+      
+      await storage.updateTrade(tradeId, tradeUpdate);
+      
+      // Fields derived from executions always win over hand-edited values
+      const updatedTrade = await syncTradeWithExecutions(storage, tradeId);
+      await recordAudit(req, "trade", tradeId, "update", trade, updatedTrade ?? null);
+      res.json(updatedTrade);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.delete("/api/trades/:id", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      const trade = await storage.getTrade(tradeId);
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const trashedTrade = await storage.setTradeDeletedAt(tradeId, new Date());
+      await recordAudit(req, "trade", tradeId, "delete", trade, trashedTrade);
+      res.json({ message: "Trade moved to the trash", expiresAt: trashExpiresAt(deletedAt(trashedTrade)) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+  
+  app.get("/api/trades/:id/history", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      const trade = await storage.getTrade(tradeId);
+      const history = withVersions(await storage.getAuditEntries("trade", tradeId));
+      
+      // A deleted trade keeps its history, the entries tell who owned it
+      const ownerId = trade?.userId ?? history[0]?.userId;
+      if (ownerId === undefined) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (ownerId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      res.json(history);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+  
+  app.post("/api/trades/:id/history/:version/restore", ensureAuthenticated, documentRequest({ params: versionParamsSchema }), async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      const trade = await storage.getTrade(tradeId);
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const version = parseInt(req.params.version);
+      const history = withVersions(await storage.getAuditEntries("trade", tradeId));
+      if (!history.some((entry) => entry.version === version)) {
+        return sendError(res, new NotFoundError("Version not found"));
+      }
+      
+      const tradeUpdate = restoreUpdate(trade, history, version);
+      
+      // Collections and tags deleted since then can't be restored with it
+      if (typeof tradeUpdate.collectionId === "number") {
+        const collection = await storage.getCollection(tradeUpdate.collectionId);
+        if (!collection || collection.userId !== userId) {
+          tradeUpdate.collectionId = null;
+        }
+      }
+      if (Array.isArray(tradeUpdate.tagIds)) {
+        const userTagIds = new Set((await storage.getUserTags(userId)).map((tag) => tag.id));
+        tradeUpdate.tagIds = tradeUpdate.tagIds.filter((id) => userTagIds.has(id));
+      }
+      
+      if (Object.keys(tradeUpdate).length === 0) {
+        return res.json(trade);
+      }
+      
+      await storage.updateTrade(tradeId, tradeUpdate as Partial<InsertTrade>);
+      
+      // As with edits, fields derived from executions win
+      const updatedTrade = await syncTradeWithExecutions(storage, tradeId);
+      await recordAudit(req, "trade", tradeId, "restore", trade, updatedTrade ?? null, version);
+      res.json(updatedTrade);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  const validateTradeTags = validate({ params: idParamsSchema, body: tradeTagsSchema }, "Invalid tags");
+  app.put("/api/trades/:id/tags", ensureAuthenticated, validateTradeTags, async (req, res) => {
+    try {
+      const { params, body } = validatedRequest(req, validateTradeTags);
+      const tradeId = params.id;
+      const trade = await storage.getTrade(tradeId);
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const { tagIds } = body;
+      const userTagIds = new Set((await storage.getUserTags(userId)).map((tag) => tag.id));
+      const unknownTagIds = tagIds.filter((id) => !userTagIds.has(id));
+      
+      if (unknownTagIds.length > 0) {
+        return sendError(res, new BadRequestError(`Unknown tags: ${unknownTagIds.join(", ")}`));
+      }
+      
+      const updatedTrade = await storage.setTradeTags(tradeId, tagIds);
+      await recordAudit(req, "trade", tradeId, "update", trade, updatedTrade);
+      res.json(updatedTrade);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Attachment routes
+  app.get("/api/trades/:id/attachments", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      const trade = await storage.getTrade(tradeId);
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const attachments = await storage.getTradeAttachments(tradeId);
+      res.json(attachments);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.post("/api/trades/:id/attachments", ensureAuthenticated, documentRequest({ params: idParamsSchema }), attachmentUpload.array("file", 10), ensureWithinQuota("attachments", countUploads), async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      const trade = await storage.getTrade(tradeId);
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const files = Array.isArray(req.files) ? req.files : [];
+      if (files.length === 0) {
+        return sendError(res, new BadRequestError(`Attach at least one image (${ALLOWED_ATTACHMENT_TYPES.join(", ")})`));
+      }
+      
+      // Check every file before saving any, so a bad one doesn't leave the
+      // others half uploaded
+      const rejected = files.find((file) => !imageContentType(file.buffer));
+      if (rejected) {
+        return sendError(res, new BadRequestError(`${rejected.originalname} is not a PNG, JPEG, GIF or WebP image`));
+      }
+
+      const attachments = [];
+      for (const file of files) {
+        attachments.push(await saveAttachment(storage, attachmentStore, { ...file, tradeId, userId }));
+      }
+      
+      res.status(201).json(attachments);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.get("/api/trades/:id/attachments/:attachmentId", ensureAuthenticated, documentRequest({ params: attachmentParamsSchema }), async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      const trade = await storage.getTrade(tradeId);
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const attachment = await storage.getAttachment(tradeId, parseInt(req.params.attachmentId));
+      
+      if (!attachment) {
+        return sendError(res, new NotFoundError("Attachment not found"));
+      }
+      
+      const stream = await attachmentStore.createReadStream(attachment.storageKey);
+      // The type was read from the file's content at upload
+      res.set({
+        "Content-Type": attachment.contentType,
+        "Content-Length": attachment.size.toString(),
+        "Content-Disposition": `inline; filename="${encodeURIComponent(attachment.filename)}"`,
+        "X-Content-Type-Options": "nosniff"
+      });
+      stream.on("error", (error: NodeJS.ErrnoException) => {
+        if (res.headersSent) {
+          return res.destroy(error);
+        }
+        for (const header of ["Content-Type", "Content-Length", "Content-Disposition"]) {
+          res.removeHeader(header);
+        }
+        sendError(res, error.code === "ENOENT" ? new NotFoundError("Attachment file not found") : error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.delete("/api/trades/:id/attachments/:attachmentId", ensureAuthenticated, documentRequest({ params: attachmentParamsSchema }), async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      const trade = await storage.getTrade(tradeId);
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const attachment = await storage.getAttachment(tradeId, parseInt(req.params.attachmentId));
+      
+      if (!attachment) {
+        return sendError(res, new NotFoundError("Attachment not found"));
+      }
+      
+      await deleteAttachment(storage, attachmentStore, attachment);
+      res.json({ message: "Attachment deleted successfully" });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Execution routes
+  app.get("/api/trades/:id/executions", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      const trade = await storage.getTrade(tradeId);
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const executions = await storage.getTradeExecutions(tradeId);
+      res.json(executions);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.post("/api/trades/:id/executions", ensureAuthenticated, documentRequest({ params: idParamsSchema, body: insertExecutionSchema.omit({ tradeId: true }) }), async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      const trade = await storage.getTrade(tradeId);
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const validateResult = insertExecutionSchema.safeParse({
+        ...req.body,
+        tradeId
+      });
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid execution data", validateResult.error));
+      }
+      
+      // Reject fills that would close more than is open before saving anything
+      const executions = await storage.getTradeExecutions(tradeId);
+      const candidate: Execution = { ...validateResult.data, id: Number.MAX_SAFE_INTEGER, createdAt: new Date() };
+      computeTradeAggregate([...executions, candidate], tradeMatchingMethod(trade));
+      
+      const execution = await storage.createExecution(validateResult.data);
+      const updatedTrade = await syncTradeWithExecutions(storage, tradeId);
+      await recordAudit(req, "trade", tradeId, "update", trade, updatedTrade ?? null);
+      res.status(201).json({ execution, trade: updatedTrade });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  const validateExecutionUpdate = validate({ params: executionParamsSchema, body: updateExecutionSchema }, "Invalid execution data");
+  app.put("/api/trades/:id/executions/:executionId", ensureAuthenticated, validateExecutionUpdate, async (req, res) => {
+    try {
+      const { params, body: executionUpdate } = validatedRequest(req, validateExecutionUpdate);
+      const tradeId = params.id;
+      const trade = await storage.getTrade(tradeId);
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const { executionId } = params;
+      const execution = await storage.getExecution(tradeId, executionId);
+      
+      if (!execution) {
+        return sendError(res, new NotFoundError("Execution not found"));
+      }
+      
+      const executions = await storage.getTradeExecutions(tradeId);
+      computeTradeAggregate(
+        executions.map((e) => (e.id === executionId ? { ...e, ...executionUpdate } : e)),
+        tradeMatchingMethod(trade)
+      );
+      
+      const updatedExecution = await storage.updateExecution(tradeId, executionId, executionUpdate);
+      const updatedTrade = await syncTradeWithExecutions(storage, tradeId);
+      await recordAudit(req, "trade", tradeId, "update", trade, updatedTrade ?? null);
+      res.json({ execution: updatedExecution, trade: updatedTrade });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.delete("/api/trades/:id/executions/:executionId", ensureAuthenticated, documentRequest({ params: executionParamsSchema }), async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      const trade = await storage.getTrade(tradeId);
+      
+      if (!trade) {
+        return sendError(res, new NotFoundError("Trade not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const executionId = parseInt(req.params.executionId);
+      const executions = await storage.getTradeExecutions(tradeId);
+      
+      if (!executions.some((e) => e.id === executionId)) {
+        return sendError(res, new NotFoundError("Execution not found"));
+      }
+      
+      computeTradeAggregate(executions.filter((e) => e.id !== executionId), tradeMatchingMethod(trade));
+      
+      await storage.deleteExecution(tradeId, executionId);
+      const updatedTrade = await syncTradeWithExecutions(storage, tradeId);
+      await recordAudit(req, "trade", tradeId, "update", trade, updatedTrade ?? null);
+      res.json({ message: "Execution deleted successfully", trade: updatedTrade });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Collection routes
+  app.get("/api/collections", ensureAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const collections = await storage.getUserCollections(userId);
+      res.json(collections);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.post("/api/collections", ensureAuthenticated, ensureWithinQuota("collections"), documentRequest({ body: insertCollectionSchema.omit({ userId: true }) }), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validateResult = insertCollectionSchema.safeParse({
+        ...req.body,
+        userId
+      });
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid collection data", validateResult.error));
+      }
+      
+      const collection = await storage.createCollection(validateResult.data);
+      await recordAudit(req, "collection", collection.id, "create", null, collection);
+      res.status(201).json(collection);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.get("/api/collections/:id", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const collection = await storage.getCollection(parseInt(req.params.id));
+      
+      if (!collection) {
+        return sendError(res, new NotFoundError("Collection not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (collection.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      res.json(collection);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.get("/api/collections/:id/trades", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const collectionId = parseInt(req.params.id);
+      const collection = await storage.getCollection(collectionId);
+      
+      if (!collection) {
+        return sendError(res, new NotFoundError("Collection not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (collection.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const trades = await storage.getCollectionTrades(collectionId);
+      res.json(trades);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.get("/api/collections/:id/analytics", ensureAuthenticated, documentRequest({ params: idParamsSchema, query: collectionSummaryQuerySchema }), async (req, res) => {
+    try {
+      const collectionId = parseInt(req.params.id);
+      const collection = await storage.getCollection(collectionId);
+      
+      if (!collection) {
+        return sendError(res, new NotFoundError("Collection not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (collection.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const validateResult = collectionSummaryQuerySchema.safeParse(req.query);
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid analytics filter", validateResult.error));
+      }
+      
+      const trades = await storage.getCollectionTrades(collectionId);
+      const { timezone, basis, ...filter } = validateResult.data;
+      const { currency, trades: converted, unconvertedTrades } = convertTrades(filterTrades(trades, filter, timezone), baseCurrency(req.user!));
+      res.json({ ...summarizePerformance(converted, timezone, basis), currency, unconvertedTrades });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  const validateCollectionUpdate = validate({ params: idParamsSchema, body: updateCollectionSchema }, "Invalid collection data");
+  app.put("/api/collections/:id", ensureAuthenticated, validateCollectionUpdate, async (req, res) => {
+    try {
+      const { params, body } = validatedRequest(req, validateCollectionUpdate);
+      const collectionId = params.id;
+      const collection = await storage.getCollection(collectionId);
+      
+      if (!collection) {
+        return sendError(res, new NotFoundError("Collection not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (collection.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const updatedCollection = await storage.updateCollection(collectionId, body);
+      await recordAudit(req, "collection", collectionId, "update", collection, updatedCollection);
+      res.json(updatedCollection);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+  
+  app.get("/api/collections/:id/history", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const collectionId = parseInt(req.params.id);
+      const collection = await storage.getCollection(collectionId);
+      const history = withVersions(await storage.getAuditEntries("collection", collectionId));
+      
+      const ownerId = collection?.userId ?? history[0]?.userId;
+      if (ownerId === undefined) {
+        return sendError(res, new NotFoundError("Collection not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (ownerId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      res.json(history);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.delete("/api/collections/:id", ensureAuthenticated, documentRequest({ params: idParamsSchema, query: deleteCollectionSchema }), async (req, res) => {
+    try {
+      const collectionId = parseInt(req.params.id);
+      const collection = await storage.getCollection(collectionId);
+      
+      if (!collection) {
+        return sendError(res, new NotFoundError("Collection not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (collection.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const validateResult = deleteCollectionSchema.safeParse({ ...req.query, ...req.body });
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid request", validateResult.error));
+      }
+      
+      const options = validateResult.data;
+      if (options.trades === "move") {
+        const target = await storage.getCollection(options.targetCollectionId!);
+        
+        if (!target || target.id === collectionId) {
+          return sendError(res, new BadRequestError("Target collection not found"));
+        }
+        
+        if (target.userId !== userId) {
+          return sendError(res, new ForbiddenError());
+        }
+      }
+      
+      const trades = await storage.getCollectionTrades(collectionId);
+      const { deletedAt: trashedAt, ...result } = await deleteCollectionWithTrades(storage, collectionId, options);
+      
+      for (const trade of trades) {
+        if (options.trades === "delete") {
+          await recordAudit(req, "trade", trade.id, "delete", trade, { ...trade, deletedAt: trashedAt });
+        } else {
+          const targetId = options.trades === "move" ? options.targetCollectionId! : null;
+          await recordAudit(req, "trade", trade.id, "update", trade, { ...trade, collectionId: targetId });
+        }
+      }
+      await recordAudit(req, "collection", collectionId, "delete", collection, { ...collection, deletedAt: trashedAt });
+      res.json({ message: "Collection moved to the trash", ...result, expiresAt: trashExpiresAt(trashedAt) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Tag routes
+  app.get("/api/tags", ensureAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const tags = await storage.getUserTags(userId);
+      res.json(tags);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.post("/api/tags", ensureAuthenticated, documentRequest({ body: insertTagSchema.omit({ userId: true }) }), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validateResult = insertTagSchema.safeParse({
+        ...req.body,
+        userId
+      });
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid tag data", validateResult.error));
+      }
+      
+      const { name, category } = validateResult.data;
+      const existingTags = await storage.getUserTags(userId);
+      if (existingTags.some((tag) => tag.category === category && tag.name.toLowerCase() === name.toLowerCase())) {
+        return sendError(res, new BadRequestError("Tag already exists"));
+      }
+      
+      const tag = await storage.createTag(validateResult.data);
+      res.status(201).json(tag);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  const validateTagUpdate = validate({ params: idParamsSchema, body: updateTagSchema }, "Invalid tag data");
+  app.put("/api/tags/:id", ensureAuthenticated, validateTagUpdate, async (req, res) => {
+    try {
+      const { params, body } = validatedRequest(req, validateTagUpdate);
+      const tagId = params.id;
+      const tag = await storage.getTag(tagId);
+      
+      if (!tag) {
+        return sendError(res, new NotFoundError("Tag not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (tag.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const updatedTag = await storage.updateTag(tagId, body);
+      res.json(updatedTag);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.delete("/api/tags/:id", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const tagId = parseInt(req.params.id);
+      const tag = await storage.getTag(tagId);
+      
+      if (!tag) {
+        return sendError(res, new NotFoundError("Tag not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (tag.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      await storage.deleteTag(tagId);
+      res.json({ message: "Tag deleted successfully" });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Trash routes
+  app.get("/api/trash", ensureAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const trash = await storage.getUserTrash(userId);
+      res.json({ retentionDays: TRASH_RETENTION_DAYS, items: toTrashItems(trash) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+  
+  app.delete("/api/trash", ensureAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const purged = await purgeTrash(storage, attachmentStore, await storage.getUserTrash(userId));
+      res.json({ message: "Trash emptied", ...purged });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+  
+  app.post("/api/trash/trades/:id/restore", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      const trade = await storage.getTrade(tradeId, true);
+      
+      if (!trade || !isTrashed(trade)) {
+        return sendError(res, new NotFoundError("Trade not found in the trash"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const restoredTrade = await restoreTrade(storage, trade);
+      await recordAudit(req, "trade", tradeId, "restore", trade, restoredTrade);
+      res.json(restoredTrade);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+  
+  app.delete("/api/trash/trades/:id", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      const trade = await storage.getTrade(tradeId, true);
+      
+      if (!trade || !isTrashed(trade)) {
+        return sendError(res, new NotFoundError("Trade not found in the trash"));
+      }
+      
+      const userId = req.user!.id;
+      if (trade.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      await purgeTrash(storage, attachmentStore, { trades: [trade], collections: [] });
+      res.json({ message: "Trade permanently deleted" });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+  
+  app.post("/api/trash/collections/:id/restore", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const collectionId = parseInt(req.params.id);
+      const collection = await storage.getCollection(collectionId, true);
+      
+      if (!collection || !isTrashed(collection)) {
+        return sendError(res, new NotFoundError("Collection not found in the trash"));
+      }
+      
+      const userId = req.user!.id;
+      if (collection.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      const trash = await storage.getUserTrash(userId);
+      const restored = await restoreCollection(storage, trash, collection);
+      
+      await recordAudit(req, "collection", collectionId, "restore", collection, restored.collection);
+      for (const trade of restored.trades) {
+        await recordAudit(req, "trade", trade.id, "restore", { ...trade, deletedAt: deletedAt(collection) }, trade);
+      }
+      res.json(restored);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+  
+  app.delete("/api/trash/collections/:id", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const collectionId = parseInt(req.params.id);
+      const collection = await storage.getCollection(collectionId, true);
+      
+      if (!collection || !isTrashed(collection)) {
+        return sendError(res, new NotFoundError("Collection not found in the trash"));
+      }
+      
+      const userId = req.user!.id;
+      if (collection.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      // Trades deleted along with the collection go with it
+      const purged = await purgeTrash(storage, attachmentStore, collectionTrash(await storage.getUserTrash(userId), collection));
+      res.json({ message: "Collection permanently deleted", ...purged });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+  
+  // Analytics routes
+  app.get("/api/analytics/summary", ensureAuthenticated, documentRequest({ query: summaryQuerySchema }), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validateResult = summaryQuerySchema.safeParse(req.query);
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid analytics filter", validateResult.error));
+      }
+      
+      const trades = await storage.getUserTrades(userId);
+      const { timezone, basis, ...filter } = validateResult.data;
+      const { currency, trades: converted, unconvertedTrades } = convertTrades(filterTrades(trades, filter, timezone), baseCurrency(req.user!));
+      res.json({ ...summarizePerformance(converted, timezone, basis), currency, unconvertedTrades });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.get("/api/analytics/tags", ensureAuthenticated, documentRequest({ query: tagAnalyticsQuerySchema }), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validateResult = tagAnalyticsQuerySchema.safeParse(req.query);
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid analytics filter", validateResult.error));
+      }
+      
+      const { timezone, category, basis, ...filter } = validateResult.data;
+      const [tags, trades] = await Promise.all([
+        storage.getUserTags(userId),
+        storage.getUserTrades(userId)
+      ]);
+      
+      // Trades without an FX rate for their exit date are left out
+      const selectedTags = category ? tags.filter((tag) => tag.category === category) : tags;
+      const { trades: converted } = convertTrades(filterTrades(trades, filter, timezone), baseCurrency(req.user!));
+      res.json(summarizeByTag(selectedTags, converted, timezone, basis));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.get("/api/analytics/equity-curve", ensureAuthenticated, documentRequest({ query: equityCurveQuerySchema }), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validateResult = equityCurveQuerySchema.safeParse(req.query);
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid analytics filter", validateResult.error));
+      }
+      
+      const { interval, timezone, startingBalance, basis, ...filter } = validateResult.data;
+      const trades = await storage.getUserTrades(userId);
+      const { currency, trades: converted, unconvertedTrades } = convertTrades(filterTrades(trades, filter, timezone), baseCurrency(req.user!));
+      const buckets = bucketPnl(closedTrades(converted, basis), interval, timezone);
+      
+      res.json({
+        interval,
+        timezone,
+        basis,
+        currency,
+        startingBalance,
+        points: equityCurve(buckets, startingBalance),
+        unconvertedTrades
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.get("/api/analytics/calendar", ensureAuthenticated, documentRequest({ query: timeSeriesQuerySchema }), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validateResult = timeSeriesQuerySchema.safeParse(req.query);
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid analytics filter", validateResult.error));
+      }
+      
+      const { interval, timezone, basis, ...filter } = validateResult.data;
+      const trades = await storage.getUserTrades(userId);
+      const { currency, trades: converted, unconvertedTrades } = convertTrades(filterTrades(trades, filter, timezone), baseCurrency(req.user!));
+      
+      res.json({
+        interval,
+        timezone,
+        basis,
+        currency,
+        buckets: bucketPnl(closedTrades(converted, basis), interval, timezone),
+        unconvertedTrades
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Import profile routes
+  app.get("/api/import-profiles", ensureAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const profiles = await storage.getUserImportProfiles(userId);
+      res.json({
+        builtIn: Object.values(builtInImportProfiles),
+        custom: profiles
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.post("/api/import-profiles", ensureAuthenticated, documentRequest({ body: insertImportProfileSchema.omit({ userId: true }) }), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validateResult = insertImportProfileSchema.safeParse({
+        ...req.body,
+        userId
+      });
+      
+      if (!validateResult.success) {
+        return sendError(res, ValidationError.fromZod("Invalid import profile", validateResult.error));
+      }
+      
+      const { name } = validateResult.data;
+      const existingProfiles = await storage.getUserImportProfiles(userId);
+      if (builtInImportProfiles[name] || existingProfiles.some((profile) => profile.name === name)) {
+        return sendError(res, new BadRequestError("Import profile name already in use"));
+      }
+      
+      const profile = await storage.createImportProfile(validateResult.data);
+      res.status(201).json(profile);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.delete("/api/import-profiles/:id", ensureAuthenticated, documentRequest({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const profileId = parseInt(req.params.id);
+      const profile = await storage.getImportProfile(profileId);
+      
+      if (!profile) {
+        return sendError(res, new NotFoundError("Import profile not found"));
+      }
+      
+      const userId = req.user!.id;
+      if (profile.userId !== userId) {
+        return sendError(res, new ForbiddenError());
+      }
+      
+      await storage.deleteImportProfile(profileId);
+      res.json({ message: "Import profile deleted successfully" });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Data export and restore, for backups and data access requests
+  app.get("/api/export", ensureAuthenticated, async (req, res) => {
+    const user = req.user!;
+    const filename = `trade-journal-export-${new Date().toISOString().slice(0, 10)}.zip`;
+    
+    res.set({
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    });
+    
+    try {
+      await writeUserArchive(storage, attachmentStore, user, res);
+      res.end();
+    } catch (error: any) {
+      console.error("Error exporting account data:", error);
+      // Part of the archive may already be sent, a JSON error can't follow it
+      if (res.headersSent) {
+        res.destroy(error);
+      } else {
+        sendError(res, error);
+      }
+    }
+  });
+  
+  app.post("/api/import/archive", ensureAuthenticated, archiveUpload.single("file"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      if (!req.file) {
+        return sendError(res, new BadRequestError("An export archive is required"));
+      }
+      
+      if (!(await isEmptyAccount(storage, user.id))) {
+        return sendError(res, new ConflictError("Archives can only be restored into an account without trades, collections or tags"));
+      }
+      
+      let archive;
+      try {
+        // Quotas are checked against the manifest before the rest is inflated
+        const counts = await readArchiveCounts(req.file.buffer);
+        for (const resource of ["trades", "collections", "attachments"] as const) {
+          const blocked = counts[resource] > 0 && await checkQuota(storage, user, resource, counts[resource]);
+          if (blocked) {
+            return sendError(res, blocked);
+          }
+        }
+        
+        archive = await readUserArchive(req.file.buffer, counts, user.id);
+      } catch (error) {
+        // Problems with the archive's contents are ArchiveErrors already
+        if (error instanceof ZipError) {
+          return sendError(res, new BadRequestError(error.message));
+        }
+        throw error;
+      }
+      
+      const result = await restoreUserArchive(storage, attachmentStore, user.id, archive);
+      res.status(201).json(result);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Stripe payment routes
+  if (stripe) {
+    app.post("/api/create-payment-intent", ensureAuthenticated, documentRequest({ body: paymentIntentSchema }), async (req, res) => {
+      try {
+        const { amount } = req.body;
+        const paymentIntent = await stripe.paymentIntents.create({
+          amount: Math.round(amount * 100), // Convert to cents
+          currency: "usd",
+        });
+        res.json({ clientSecret: paymentIntent.client_secret });
+      } catch (error: any) {
+        sendError(res, new HttpError(500, "internal_error", "Error creating payment intent: " + error.message));
+      }
+    });
+
+    app.post('/api/create-subscription', ensureAuthenticated, async (req, res) => {
+      try {
+        const user = req.user!;
+        const { planId } = req.body;
+        
+        if (!planId) {
+          return sendError(res, new BadRequestError("Plan ID is required"));
+        }
 
         let customerId = user.stripeCustomerId;
         
@@ -462,9 +2267,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           subscriptionId: subscription.id
         });
         
-        // Update user plan type
-        const planType = planId.includes('pro') ? 'pro' : 'basic';
-        await storage.updateUserPlan(user.id, planType);
+        // The plan itself is granted by the webhook once the first invoice is paid
+        await storage.updateUserSubscription(user.id, {
+          subscriptionStatus: subscription.status,
+          subscriptionPeriodEnd: null
+        });
         
         // Return client secret for payment confirmation
         const latestInvoice = subscription.latest_invoice as any;
@@ -476,11 +2283,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       } catch (error: any) {
         console.error("Subscription error:", error);
-        res.status(500).json({ message: "Error creating subscription: " + error.message });
+        sendError(res, new HttpError(500, "internal_error", "Error creating subscription: " + error.message));
       }
     });
-  }
 
-  const httpServer = createServer(app);
-  return httpServer;
+    app.post('/api/stripe/webhook', async (req, res) => {
+      const signature = req.headers['stripe-signature'];
+      const secret = process.env.STRIPE_WEBHOOK_SECRET;
+      
+      if (!secret) {
+        return sendError(res, new ServiceUnavailableError("Stripe webhooks are not configured"));
+      }
+      
+      if (typeof signature !== "string" || !Buffer.isBuffer(req.rawBody)) {
+        return sendError(res, new BadRequestError("Missing Stripe signature"));
+      }
+      
+      let event: Stripe.Event;
+      try {
+        event = constructStripeEvent(stripe, req.rawBody, signature, secret);
+      } catch (error: any) {
+        return sendError(res, new BadRequestError("Invalid Stripe signature: " + error.message));
+      }
+      
+      try {
+        await handleStripeEvent(storage, event);
+        res.json({ received: true });
+      } catch (error: any) {
+        // A non-2xx response makes Stripe retry the event later
+        console.error("Stripe webhook error:", error);
+        sendError(res, new HttpError(500, "internal_error", "Error handling Stripe event: " + error.message));
+      }
+    });
+  }
 }
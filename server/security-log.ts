@@ -0,0 +1,49 @@
+import fs from "fs";
+import path from "path";
+
+export type SecurityEventType =
+  | "login_failed"
+  | "login_blocked"
+  | "account_locked"
+  | "ip_locked"
+  | "two_factor_failed"
+  | "register_blocked"
+  | "account_deleted";
+
+export interface SecurityEvent {
+  type: SecurityEventType;
+  ip?: string;
+  email?: string;
+  userId?: number;
+  reason?: string;
+  at: Date;
+}
+
+export interface SecurityLog {
+  record(event: Omit<SecurityEvent, "at">): Promise<void>;
+}
+
+// Appends one JSON line per event
+export class FileSecurityLog implements SecurityLog {
+  constructor(private file: string) {}
+
+  async record(event: Omit<SecurityEvent, "at">): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.appendFile(this.file, JSON.stringify({ ...event, at: new Date() }) + "\n");
+  }
+}
+
+export class ConsoleSecurityLog implements SecurityLog {
+  async record(event: Omit<SecurityEvent, "at">): Promise<void> {
+    console.warn(`[security] ${JSON.stringify({ ...event, at: new Date() })}`);
+  }
+}
+
+// SECURITY_LOG_PATH writes events to a file, otherwise they go to the console
+export function createSecurityLog(): SecurityLog {
+  return process.env.SECURITY_LOG_PATH
+    ? new FileSecurityLog(process.env.SECURITY_LOG_PATH)
+    : new ConsoleSecurityLog();
+}
+
+export const securityLog = createSecurityLog();
@@ -0,0 +1,148 @@
+import { createHash } from "crypto";
+import session from "express-session";
+import type { Request } from "express";
+import type { IStorage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    // Device details recorded at sign-in, shown in the sessions list
+    client?: { userAgent: string | null; ip: string | null; signedInAt: string };
+  }
+}
+
+export interface StoredSession {
+  sid: string;
+  // Signed-in user, null for sessions that only hold e.g. a 2FA challenge
+  userId: number | null;
+  // Serialized express-session data
+  session: string;
+  expiresAt: Date;
+  lastSeenAt: Date;
+}
+
+export const SESSION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+// Extending a session's expiry on every request would mean a write per request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+const DEFAULT_SESSION_SECRET = "trade-journal-secret";
+
+// A secret from the environment variable name. Production refuses a
+// missing, default or guessable one, since anyone who knows it can forge
+// whatever it signs; elsewhere the development default stands in.
+export function environmentSecret(name: string): string {
+  const secret = process.env[name];
+
+  if (process.env.NODE_ENV === "production" && (!secret || secret === DEFAULT_SESSION_SECRET || secret.length < 32)) {
+    throw new Error(`${name} must be set to a random value of at least 32 characters in production`);
+  }
+
+  return secret || DEFAULT_SESSION_SECRET;
+}
+
+// Signs session cookies
+export function sessionSecret(): string {
+  return environmentSecret("SESSION_SECRET");
+}
+
+// express-session store that keeps sessions in the active storage backend,
+// so they survive restarts and can be shared between instances
+export class StorageSessionStore extends session.Store {
+  private lastTouched = new Map<string, number>();
+  private cleanupTimer: NodeJS.Timeout;
+
+  constructor(private storage: IStorage, private ttlMs = SESSION_TTL_MS) {
+    super();
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup().catch((error) => console.error("Error removing expired sessions:", error));
+    }, CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref();
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    this.storage.getSession(sid).then(async (stored) => {
+      if (!stored) return callback(null, null);
+
+      if (stored.expiresAt.getTime() <= Date.now()) {
+        await this.storage.deleteSession(sid);
+        return callback(null, null);
+      }
+
+      callback(null, JSON.parse(stored.session));
+    }).catch(callback);
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void): void {
+    const now = new Date();
+    this.lastTouched.set(sid, now.getTime());
+
+    this.storage.setSession({
+      sid,
+      userId: (sess as any).passport?.user ?? null,
+      session: JSON.stringify(sess),
+      expiresAt: this.expiresAt(sess, now),
+      lastSeenAt: now,
+    }).then(() => callback?.(), (error) => callback?.(error));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void): void {
+    const now = new Date();
+    const lastTouched = this.lastTouched.get(sid);
+    if (lastTouched && now.getTime() - lastTouched < TOUCH_INTERVAL_MS) {
+      return callback?.();
+    }
+    this.lastTouched.set(sid, now.getTime());
+
+    this.storage.touchSession(sid, this.expiresAt(sess, now), now).then(
+      () => callback?.(),
+      (error) => {
+        console.error("Error touching session:", error);
+        callback?.();
+      }
+    );
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    this.lastTouched.delete(sid);
+    this.storage.deleteSession(sid).then(() => callback?.(), (error) => callback?.(error));
+  }
+
+  async cleanup(now = new Date()): Promise<number> {
+    Array.from(this.lastTouched.entries()).forEach(([sid, touchedAt]) => {
+      if (now.getTime() - touchedAt > this.ttlMs) this.lastTouched.delete(sid);
+    });
+    return this.storage.deleteExpiredSessions(now);
+  }
+
+  private expiresAt(sess: session.SessionData, now: Date): Date {
+    const expires = sess.cookie?.expires;
+    return expires ? new Date(expires) : new Date(now.getTime() + this.ttlMs);
+  }
+}
+
+export function sessionClientInfo(req: Request): NonNullable<session.SessionData["client"]> {
+  return {
+    userAgent: req.get("user-agent") ?? null,
+    ip: req.ip ?? null,
+    signedInAt: new Date().toISOString(),
+  };
+}
+
+// Session ids are never sent back to clients; this stable hash stands in for them
+export function publicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("base64url").slice(0, 24);
+}
+
+export function toPublicSession(stored: StoredSession, currentSid: string) {
+  const data = JSON.parse(stored.session) as Partial<session.SessionData>;
+
+  return {
+    id: publicSessionId(stored.sid),
+    current: stored.sid === currentSid,
+    userAgent: data.client?.userAgent ?? null,
+    ip: data.client?.ip ?? null,
+    signedInAt: data.client ? new Date(data.client.signedInAt) : null,
+    lastSeenAt: stored.lastSeenAt,
+    expiresAt: stored.expiresAt,
+  };
+}
@@ -0,0 +1,774 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import type { User, InsertUser, Trade, InsertTrade, Collection, InsertCollection } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { NotFoundError } from "./errors";
+import type { SubscriptionState } from "./billing";
+import type { ApiToken, InsertApiToken } from "./api-tokens";
+import type { TwoFactorState } from "./two-factor";
+import type { StoredSession } from "./session-store";
+import type { AuditEntityType, AuditEntry, InsertAuditEntry } from "./audit";
+import type { CommissionSchedule } from "./fees";
+import type { ImportProfile, InsertImportProfile } from "./trade-import";
+import type { Execution, InsertExecution } from "./executions";
+import type { InsertTag, Tag } from "./tags";
+import type { Attachment, InsertAttachment } from "./attachments";
+import { matchesOutcome, pageFetchSize, toTradePage, withNormalizedSymbol, type TradePage, type TradeQuery } from "./trade-query";
+import type { UserTrash } from "./trash";
+
+// Fields that are persisted as ISO strings and revived as Dates on read,
+// mirroring what convertFirestoreData does for Firestore Timestamps.
+const DATE_FIELDS = ["createdAt", "entryDate", "exitDate", "timestamp", "subscriptionPeriodEnd", "lastUsedAt", "deletedAt"];
+
+type DocumentRow = { id: number; data: string };
+
+// Helper function to convert a stored JSON document back into a plain object
+function parseDocument<T>(row: DocumentRow | undefined): T | undefined {
+  if (!row) return undefined;
+
+  const data = JSON.parse(row.data);
+  for (const field of DATE_FIELDS) {
+    if (data[field]) {
+      data[field] = new Date(data[field]);
+    }
+  }
+
+  return { ...data, id: row.id } as T;
+}
+
+// Trades and collections in the trash have a deletedAt timestamp
+const NOT_TRASHED = "json_extract(data, '$.deletedAt') IS NULL";
+const TRASHED = "json_extract(data, '$.deletedAt') IS NOT NULL";
+
+// Sessions are keyed by sid rather than a numeric id
+function parseSession(row: { data: string } | undefined): StoredSession | undefined {
+  if (!row) return undefined;
+
+  const session = JSON.parse(row.data);
+  return { ...session, expiresAt: new Date(session.expiresAt), lastSeenAt: new Date(session.lastSeenAt) };
+}
+
+// File-backed storage for self-hosting. Records are kept as JSON documents
+// (like Firestore) with the columns we query on pulled out and indexed.
+export class SqliteStorage implements IStorage {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.initializeSchema();
+  }
+
+  private initializeSchema() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS counters (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE,
+        email TEXT NOT NULL UNIQUE,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS trades (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        collection_id INTEGER,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS trades_user_id ON trades (user_id);
+      CREATE INDEX IF NOT EXISTS trades_collection_id ON trades (collection_id);
+      CREATE INDEX IF NOT EXISTS trades_user_entry_date ON trades (user_id, json_extract(data, '$.entryDate'));
+      CREATE INDEX IF NOT EXISTS trades_deleted_at ON trades (json_extract(data, '$.deletedAt'));
+      CREATE TABLE IF NOT EXISTS collections (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS collections_user_id ON collections (user_id);
+      CREATE INDEX IF NOT EXISTS collections_deleted_at ON collections (json_extract(data, '$.deletedAt'));
+      CREATE TABLE IF NOT EXISTS executions (
+        id INTEGER PRIMARY KEY,
+        trade_id INTEGER NOT NULL,
+        timestamp TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS executions_trade_id ON executions (trade_id, timestamp);
+      CREATE TABLE IF NOT EXISTS attachments (
+        id INTEGER PRIMARY KEY,
+        trade_id INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS attachments_trade_id ON attachments (trade_id);
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS tags_user_id ON tags (user_id);
+      CREATE TABLE IF NOT EXISTS import_profiles (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS import_profiles_user_id ON import_profiles (user_id);
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS api_tokens_user_id ON api_tokens (user_id);
+      CREATE TABLE IF NOT EXISTS used_tokens (
+        token_id TEXT PRIMARY KEY,
+        expires_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS sessions (
+        sid TEXT PRIMARY KEY,
+        user_id INTEGER,
+        expires_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS sessions_user_id ON sessions (user_id);
+      CREATE INDEX IF NOT EXISTS sessions_expires_at ON sessions (expires_at);
+      CREATE TABLE IF NOT EXISTS audit_entries (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS audit_entries_entity ON audit_entries (entity_type, entity_id);
+      CREATE INDEX IF NOT EXISTS audit_entries_user_id ON audit_entries (user_id);
+    `);
+
+    const insertCounter = this.db.prepare('INSERT OR IGNORE INTO counters (name, value) VALUES (?, 1)');
+    for (const name of ['userId', 'tradeId', 'collectionId', 'importProfileId', 'executionId', 'tagId', 'attachmentId', 'apiTokenId', 'auditEntryId']) {
+      insertCounter.run(name);
+    }
+  }
+
+  private getNextId(counterName: string): number {
+    const next = this.db.transaction((name: string) => {
+      const row = this.db.prepare('SELECT value FROM counters WHERE name = ?').get(name) as { value: number } | undefined;
+      const currentValue = row?.value || 1;
+      this.db.prepare('INSERT OR REPLACE INTO counters (name, value) VALUES (?, ?)').run(name, currentValue + 1);
+      return currentValue;
+    });
+    return next(counterName);
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const row = this.db.prepare('SELECT id, data FROM users WHERE id = ?').get(id) as DocumentRow | undefined;
+    return parseDocument<User>(row);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const row = this.db.prepare('SELECT id, data FROM users WHERE username = ?').get(username) as DocumentRow | undefined;
+    return parseDocument<User>(row);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const row = this.db.prepare('SELECT id, data FROM users WHERE email = ?').get(email) as DocumentRow | undefined;
+    return parseDocument<User>(row);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.getNextId('userId');
+
+    const user: User = {
+      ...insertUser,
+      id,
+      createdAt: new Date(),
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      planType: "free",
+      avatar: insertUser.avatar || null
+    };
+
+    this.db
+      .prepare('INSERT INTO users (id, username, email, data) VALUES (?, ?, ?, ?)')
+      .run(id, user.username, user.email, JSON.stringify(user));
+    return user;
+  }
+
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    const row = this.db
+      .prepare("SELECT id, data FROM users WHERE json_extract(data, '$.stripeCustomerId') = ?")
+      .get(customerId) as DocumentRow | undefined;
+    return parseDocument<User>(row);
+  }
+
+  private async saveUser(userId: number, userUpdate: Partial<User>): Promise<User> {
+    const user = await this.getUser(userId);
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const updatedUser: User = { ...user, ...userUpdate };
+    this.db
+      .prepare('UPDATE users SET username = ?, email = ?, data = ? WHERE id = ?')
+      .run(updatedUser.username, updatedUser.email, JSON.stringify(updatedUser), userId);
+    return updatedUser;
+  }
+
+  async updateUserStripeInfo(userId: number, stripeInfo: { customerId: string, subscriptionId: string }): Promise<User> {
+    return this.saveUser(userId, {
+      stripeCustomerId: stripeInfo.customerId,
+      stripeSubscriptionId: stripeInfo.subscriptionId
+    });
+  }
+
+  async updateUserPlan(userId: number, planType: string): Promise<User> {
+    return this.saveUser(userId, { planType });
+  }
+
+  async updateUserSubscription(userId: number, subscription: SubscriptionState): Promise<User> {
+    return this.saveUser(userId, subscription as Partial<User>);
+  }
+
+  async updateUserPassword(userId: number, passwordHash: string): Promise<User> {
+    return this.saveUser(userId, { password: passwordHash });
+  }
+
+  async setUserEmailVerified(userId: number, emailVerified: boolean): Promise<User> {
+    return this.saveUser(userId, { emailVerified } as Partial<User>);
+  }
+
+  async updateUserTwoFactor(userId: number, twoFactor: Partial<TwoFactorState>): Promise<User> {
+    return this.saveUser(userId, twoFactor as Partial<User>);
+  }
+
+  async updateUserBaseCurrency(userId: number, baseCurrency: string): Promise<User> {
+    return this.saveUser(userId, { baseCurrency } as Partial<User>);
+  }
+
+  async updateUserCommissionSchedules(userId: number, commissionSchedules: CommissionSchedule[]): Promise<User> {
+    return this.saveUser(userId, { commissionSchedules } as Partial<User>);
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM users WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  // Trade operations
+  async createTrade(insertTrade: InsertTrade): Promise<Trade> {
+    const id = this.getNextId('tradeId');
+
+    const trade: Trade = {
+      ...withNormalizedSymbol(insertTrade),
+      id,
+      createdAt: new Date(),
+      notes: insertTrade.notes || null,
+      collectionId: insertTrade.collectionId || null
+    };
+
+    this.db
+      .prepare('INSERT INTO trades (id, user_id, collection_id, data) VALUES (?, ?, ?, ?)')
+      .run(id, trade.userId, trade.collectionId, JSON.stringify(trade));
+    return trade;
+  }
+
+  async getTrade(id: number, includeTrashed = false): Promise<Trade | undefined> {
+    const row = this.db
+      .prepare(`SELECT id, data FROM trades WHERE id = ?${includeTrashed ? '' : ` AND ${NOT_TRASHED}`}`)
+      .get(id) as DocumentRow | undefined;
+    return parseDocument<Trade>(row);
+  }
+
+  async getUserTrades(userId: number): Promise<Trade[]> {
+    const rows = this.db.prepare(`SELECT id, data FROM trades WHERE user_id = ? AND ${NOT_TRASHED}`).all(userId) as DocumentRow[];
+    return rows.map((row) => parseDocument<Trade>(row)!);
+  }
+
+  async countUserTrades(userId: number, createdSince?: Date): Promise<number> {
+    const row = createdSince
+      ? this.db
+          .prepare("SELECT COUNT(*) AS count FROM trades WHERE user_id = ? AND json_extract(data, '$.createdAt') >= ?")
+          .get(userId, createdSince.toISOString())
+      : this.db.prepare('SELECT COUNT(*) AS count FROM trades WHERE user_id = ?').get(userId);
+    return (row as { count: number }).count;
+  }
+
+  async queryUserTrades(userId: number, query: TradeQuery): Promise<TradePage> {
+    const conditions = ['user_id = ?', NOT_TRASHED];
+    const params: (string | number)[] = [userId];
+
+    if (query.from) {
+      conditions.push("json_extract(data, '$.entryDate') >= ?");
+      params.push(query.from.toISOString());
+    }
+    if (query.to) {
+      conditions.push("json_extract(data, '$.entryDate') <= ?");
+      params.push(query.to.toISOString());
+    }
+    if (query.symbol) {
+      conditions.push("upper(json_extract(data, '$.symbol')) = ?");
+      params.push(query.symbol);
+    }
+    if (query.side) {
+      conditions.push("json_extract(data, '$.side') = ?");
+      params.push(query.side);
+    }
+    if (query.collectionId !== undefined) {
+      conditions.push('collection_id = ?');
+      params.push(query.collectionId);
+    }
+    if (query.tagIds) {
+      conditions.push(`EXISTS (SELECT 1 FROM json_each(data, '$.tagIds') WHERE value IN (${query.tagIds.map(() => '?').join(', ')}))`);
+      params.push(...query.tagIds);
+    }
+
+    // query.sort is one of a fixed set of field names, safe to interpolate
+    const sortExpression = `json_extract(data, '$.${query.sort}')`;
+    const direction = query.order === "asc" ? "ASC" : "DESC";
+    const comparison = query.order === "asc" ? ">" : "<";
+
+    if (query.cursor) {
+      conditions.push(`(${sortExpression} ${comparison} ? OR (${sortExpression} = ? AND id ${comparison} ?))`);
+      params.push(query.cursor.value, query.cursor.value, query.cursor.id);
+    }
+
+    // Outcome depends on P&L, which SQL can't work out, so with that filter
+    // every row the other conditions leave is read and filtered here
+    const fetchSize = pageFetchSize(query);
+    const limited = fetchSize !== undefined && !query.outcome;
+    const rows = this.db
+      .prepare(`SELECT id, data FROM trades WHERE ${conditions.join(' AND ')} ORDER BY ${sortExpression} ${direction}, id ${direction}${limited ? ' LIMIT ?' : ''}`)
+      .all(...params, ...(limited ? [fetchSize] : [])) as DocumentRow[];
+    const trades = rows.map((row) => parseDocument<Trade>(row)!).filter((trade) => matchesOutcome(trade, query));
+    return toTradePage(trades.slice(0, fetchSize), query);
+  }
+
+  async getCollectionTrades(collectionId: number): Promise<Trade[]> {
+    const rows = this.db
+      .prepare(`SELECT id, data FROM trades WHERE collection_id = ? AND ${NOT_TRASHED}`)
+      .all(collectionId) as DocumentRow[];
+    return rows.map((row) => parseDocument<Trade>(row)!);
+  }
+
+  async updateTrade(id: number, tradeUpdate: Partial<InsertTrade>): Promise<Trade> {
+    const trade = await this.getTrade(id);
+
+    if (!trade) {
+      throw new NotFoundError("Trade not found");
+    }
+
+    const updatedTrade: Trade = { ...trade, ...withNormalizedSymbol(tradeUpdate) };
+    this.db
+      .prepare('UPDATE trades SET user_id = ?, collection_id = ?, data = ? WHERE id = ?')
+      .run(updatedTrade.userId, updatedTrade.collectionId, JSON.stringify(updatedTrade), id);
+    return updatedTrade;
+  }
+
+  async updateTrades(ids: number[], update: (trades: (Trade | undefined)[]) => Partial<InsertTrade>[]): Promise<Trade[]> {
+    const select = this.db.prepare('SELECT id, data FROM trades WHERE id = ?');
+    const write = this.db.prepare('UPDATE trades SET user_id = ?, collection_id = ?, data = ? WHERE id = ?');
+    const apply = this.db.transaction(() => {
+      const trades = ids.map((id) => parseDocument<Trade>(select.get(id) as DocumentRow | undefined));
+      const updates = update(trades);
+      
+      if (trades.some((trade) => !trade)) {
+        throw new NotFoundError("Trade not found");
+      }
+      
+      return ids.map((id, index) => {
+        const updatedTrade: Trade = { ...trades[index]!, ...withNormalizedSymbol(updates[index]) };
+        write.run(updatedTrade.userId, updatedTrade.collectionId, JSON.stringify(updatedTrade), id);
+        return updatedTrade;
+      });
+    });
+    return apply();
+  }
+
+  async deleteTrade(id: number): Promise<boolean> {
+    const remove = this.db.transaction((tradeId: number) => {
+      this.db.prepare('DELETE FROM executions WHERE trade_id = ?').run(tradeId);
+      this.db.prepare('DELETE FROM attachments WHERE trade_id = ?').run(tradeId);
+      return this.db.prepare('DELETE FROM trades WHERE id = ?').run(tradeId);
+    });
+    return remove(id).changes > 0;
+  }
+
+  async setTradeTags(tradeId: number, tagIds: number[]): Promise<Trade> {
+    return this.updateTrade(tradeId, { tagIds } as Partial<InsertTrade>);
+  }
+
+  async setTradeDeletedAt(id: number, deletedAt: Date | null): Promise<Trade> {
+    const result = this.db
+      .prepare(`UPDATE trades SET data = json_set(data, '$.deletedAt', ?) WHERE id = ?`)
+      .run(deletedAt?.toISOString() ?? null, id);
+
+    if (result.changes === 0) {
+      throw new NotFoundError("Trade not found");
+    }
+    return (await this.getTrade(id, true))!;
+  }
+
+  // Execution operations
+  async createExecution(insertExecution: InsertExecution): Promise<Execution> {
+    const id = this.getNextId('executionId');
+    const execution: Execution = { ...insertExecution, id, createdAt: new Date() };
+
+    this.db
+      .prepare('INSERT INTO executions (id, trade_id, timestamp, data) VALUES (?, ?, ?, ?)')
+      .run(id, execution.tradeId, execution.timestamp.toISOString(), JSON.stringify(execution));
+    return execution;
+  }
+
+  async getExecution(tradeId: number, id: number): Promise<Execution | undefined> {
+    const row = this.db
+      .prepare('SELECT id, data FROM executions WHERE id = ? AND trade_id = ?')
+      .get(id, tradeId) as DocumentRow | undefined;
+    return parseDocument<Execution>(row);
+  }
+
+  async getTradeExecutions(tradeId: number): Promise<Execution[]> {
+    const rows = this.db
+      .prepare('SELECT id, data FROM executions WHERE trade_id = ? ORDER BY timestamp, id')
+      .all(tradeId) as DocumentRow[];
+    return rows.map((row) => parseDocument<Execution>(row)!);
+  }
+
+  async updateExecution(tradeId: number, id: number, executionUpdate: Partial<InsertExecution>): Promise<Execution> {
+    const execution = await this.getExecution(tradeId, id);
+
+    if (!execution) {
+      throw new NotFoundError("Execution not found");
+    }
+
+    const updatedExecution: Execution = { ...execution, ...executionUpdate };
+    this.db
+      .prepare('UPDATE executions SET timestamp = ?, data = ? WHERE id = ?')
+      .run(updatedExecution.timestamp.toISOString(), JSON.stringify(updatedExecution), id);
+    return updatedExecution;
+  }
+
+  async deleteExecution(tradeId: number, id: number): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM executions WHERE id = ? AND trade_id = ?').run(id, tradeId);
+    return result.changes > 0;
+  }
+
+  // Attachment operations
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const id = this.getNextId('attachmentId');
+    const attachment: Attachment = { ...insertAttachment, id, createdAt: new Date() };
+
+    this.db
+      .prepare('INSERT INTO attachments (id, trade_id, data) VALUES (?, ?, ?)')
+      .run(id, attachment.tradeId, JSON.stringify(attachment));
+    return attachment;
+  }
+
+  async getAttachment(tradeId: number, id: number): Promise<Attachment | undefined> {
+    const row = this.db
+      .prepare('SELECT id, data FROM attachments WHERE id = ? AND trade_id = ?')
+      .get(id, tradeId) as DocumentRow | undefined;
+    return parseDocument<Attachment>(row);
+  }
+
+  async getTradeAttachments(tradeId: number): Promise<Attachment[]> {
+    const rows = this.db
+      .prepare('SELECT id, data FROM attachments WHERE trade_id = ? ORDER BY id')
+      .all(tradeId) as DocumentRow[];
+    return rows.map((row) => parseDocument<Attachment>(row)!);
+  }
+
+  async countUserAttachments(userId: number): Promise<number> {
+    const row = this.db
+      .prepare("SELECT COUNT(*) AS count FROM attachments WHERE json_extract(data, '$.userId') = ?")
+      .get(userId) as { count: number };
+    return row.count;
+  }
+
+  async deleteAttachment(tradeId: number, id: number): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM attachments WHERE id = ? AND trade_id = ?').run(id, tradeId);
+    return result.changes > 0;
+  }
+
+  // Collection operations
+  async createCollection(insertCollection: InsertCollection): Promise<Collection> {
+    const id = this.getNextId('collectionId');
+
+    const collection: Collection = {
+      ...insertCollection,
+      id,
+      createdAt: new Date(),
+      description: insertCollection.description || null
+    };
+
+    this.db
+      .prepare('INSERT INTO collections (id, user_id, data) VALUES (?, ?, ?)')
+      .run(id, collection.userId, JSON.stringify(collection));
+    return collection;
+  }
+
+  async getCollection(id: number, includeTrashed = false): Promise<Collection | undefined> {
+    const row = this.db
+      .prepare(`SELECT id, data FROM collections WHERE id = ?${includeTrashed ? '' : ` AND ${NOT_TRASHED}`}`)
+      .get(id) as DocumentRow | undefined;
+    return parseDocument<Collection>(row);
+  }
+
+  async getUserCollections(userId: number): Promise<Collection[]> {
+    const rows = this.db
+      .prepare(`SELECT id, data FROM collections WHERE user_id = ? AND ${NOT_TRASHED}`)
+      .all(userId) as DocumentRow[];
+    return rows.map((row) => parseDocument<Collection>(row)!);
+  }
+
+  async updateCollection(id: number, collectionUpdate: Partial<InsertCollection>): Promise<Collection> {
+    const collection = await this.getCollection(id);
+
+    if (!collection) {
+      throw new NotFoundError("Collection not found");
+    }
+
+    const updatedCollection: Collection = { ...collection, ...collectionUpdate };
+    this.db
+      .prepare('UPDATE collections SET user_id = ?, data = ? WHERE id = ?')
+      .run(updatedCollection.userId, JSON.stringify(updatedCollection), id);
+    return updatedCollection;
+  }
+
+  async moveCollectionTrades(collectionId: number, targetCollectionId: number | null): Promise<number> {
+    const result = this.db
+      .prepare(`UPDATE trades SET collection_id = ?, data = json_set(data, '$.collectionId', ?) WHERE collection_id = ?`)
+      .run(targetCollectionId, targetCollectionId, collectionId);
+    return result.changes;
+  }
+
+  async deleteCollection(id: number): Promise<boolean> {
+    const remove = this.db.transaction((collectionId: number) => {
+      // Leave the collection's trades without one rather than pointing at nothing
+      this.db
+        .prepare(`UPDATE trades SET collection_id = NULL, data = json_set(data, '$.collectionId', NULL) WHERE collection_id = ?`)
+        .run(collectionId);
+      return this.db.prepare('DELETE FROM collections WHERE id = ?').run(collectionId);
+    });
+    return remove(id).changes > 0;
+  }
+
+  async setCollectionDeletedAt(id: number, deletedAt: Date | null): Promise<Collection> {
+    const result = this.db
+      .prepare(`UPDATE collections SET data = json_set(data, '$.deletedAt', ?) WHERE id = ?`)
+      .run(deletedAt?.toISOString() ?? null, id);
+
+    if (result.changes === 0) {
+      throw new NotFoundError("Collection not found");
+    }
+    return (await this.getCollection(id, true))!;
+  }
+
+  // Trash operations
+  async getUserTrash(userId: number): Promise<UserTrash> {
+    const trades = this.db.prepare(`SELECT id, data FROM trades WHERE user_id = ? AND ${TRASHED}`).all(userId) as DocumentRow[];
+    const collections = this.db.prepare(`SELECT id, data FROM collections WHERE user_id = ? AND ${TRASHED}`).all(userId) as DocumentRow[];
+    return {
+      trades: trades.map((row) => parseDocument<Trade>(row)!),
+      collections: collections.map((row) => parseDocument<Collection>(row)!),
+    };
+  }
+
+  async getTrashedBefore(cutoff: Date): Promise<UserTrash> {
+    const condition = "json_extract(data, '$.deletedAt') <= ?";
+    const trades = this.db.prepare(`SELECT id, data FROM trades WHERE ${condition}`).all(cutoff.toISOString()) as DocumentRow[];
+    const collections = this.db.prepare(`SELECT id, data FROM collections WHERE ${condition}`).all(cutoff.toISOString()) as DocumentRow[];
+    return {
+      trades: trades.map((row) => parseDocument<Trade>(row)!),
+      collections: collections.map((row) => parseDocument<Collection>(row)!),
+    };
+  }
+
+  // Tag operations
+  async createTag(insertTag: InsertTag): Promise<Tag> {
+    const id = this.getNextId('tagId');
+    const tag: Tag = { ...insertTag, id, createdAt: new Date() };
+
+    this.db
+      .prepare('INSERT INTO tags (id, user_id, data) VALUES (?, ?, ?)')
+      .run(id, tag.userId, JSON.stringify(tag));
+    return tag;
+  }
+
+  async getTag(id: number): Promise<Tag | undefined> {
+    const row = this.db.prepare('SELECT id, data FROM tags WHERE id = ?').get(id) as DocumentRow | undefined;
+    return parseDocument<Tag>(row);
+  }
+
+  async getUserTags(userId: number): Promise<Tag[]> {
+    const rows = this.db.prepare('SELECT id, data FROM tags WHERE user_id = ?').all(userId) as DocumentRow[];
+    return rows.map((row) => parseDocument<Tag>(row)!);
+  }
+
+  async updateTag(id: number, tagUpdate: Partial<InsertTag>): Promise<Tag> {
+    const tag = await this.getTag(id);
+
+    if (!tag) {
+      throw new NotFoundError("Tag not found");
+    }
+
+    const updatedTag: Tag = { ...tag, ...tagUpdate };
+    this.db.prepare('UPDATE tags SET data = ? WHERE id = ?').run(JSON.stringify(updatedTag), id);
+    return updatedTag;
+  }
+
+  async deleteTag(id: number): Promise<boolean> {
+    const remove = this.db.transaction((tagId: number) => {
+      // Untag every trade carrying the tag along with deleting it
+      this.db.prepare(`
+        UPDATE trades
+        SET data = json_set(data, '$.tagIds', (
+          SELECT json_group_array(value) FROM json_each(trades.data, '$.tagIds') WHERE value != ?
+        ))
+        WHERE EXISTS (SELECT 1 FROM json_each(trades.data, '$.tagIds') WHERE value = ?)
+      `).run(tagId, tagId);
+      return this.db.prepare('DELETE FROM tags WHERE id = ?').run(tagId);
+    });
+    return remove(id).changes > 0;
+  }
+
+  // Import profile operations
+  async createImportProfile(insertProfile: InsertImportProfile): Promise<ImportProfile> {
+    const id = this.getNextId('importProfileId');
+    const profile: ImportProfile = { ...insertProfile, id, createdAt: new Date() };
+
+    this.db
+      .prepare('INSERT INTO import_profiles (id, user_id, data) VALUES (?, ?, ?)')
+      .run(id, profile.userId, JSON.stringify(profile));
+    return profile;
+  }
+
+  async getImportProfile(id: number): Promise<ImportProfile | undefined> {
+    const row = this.db.prepare('SELECT id, data FROM import_profiles WHERE id = ?').get(id) as DocumentRow | undefined;
+    return parseDocument<ImportProfile>(row);
+  }
+
+  async getUserImportProfiles(userId: number): Promise<ImportProfile[]> {
+    const rows = this.db.prepare('SELECT id, data FROM import_profiles WHERE user_id = ?').all(userId) as DocumentRow[];
+    return rows.map((row) => parseDocument<ImportProfile>(row)!);
+  }
+
+  async deleteImportProfile(id: number): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM import_profiles WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  // API token operations
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.getNextId('apiTokenId');
+    const token: ApiToken = { ...insertToken, id, createdAt: new Date() };
+
+    this.db
+      .prepare('INSERT INTO api_tokens (id, user_id, token_hash, data) VALUES (?, ?, ?, ?)')
+      .run(id, token.userId, token.tokenHash, JSON.stringify(token));
+    return token;
+  }
+
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    const row = this.db.prepare('SELECT id, data FROM api_tokens WHERE id = ?').get(id) as DocumentRow | undefined;
+    return parseDocument<ApiToken>(row);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const row = this.db.prepare('SELECT id, data FROM api_tokens WHERE token_hash = ?').get(tokenHash) as DocumentRow | undefined;
+    return parseDocument<ApiToken>(row);
+  }
+
+  async getUserApiTokens(userId: number): Promise<ApiToken[]> {
+    const rows = this.db.prepare('SELECT id, data FROM api_tokens WHERE user_id = ?').all(userId) as DocumentRow[];
+    return rows.map((row) => parseDocument<ApiToken>(row)!);
+  }
+
+  async touchApiToken(id: number, lastUsedAt: Date): Promise<void> {
+    this.db
+      .prepare("UPDATE api_tokens SET data = json_set(data, '$.lastUsedAt', ?) WHERE id = ?")
+      .run(lastUsedAt.toISOString(), id);
+  }
+
+  async deleteApiToken(id: number): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM api_tokens WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  async consumeOneTimeToken(tokenId: string, expiresAt: Date): Promise<boolean> {
+    const result = this.db
+      .prepare('INSERT OR IGNORE INTO used_tokens (token_id, expires_at) VALUES (?, ?)')
+      .run(tokenId, expiresAt.toISOString());
+    return result.changes > 0;
+  }
+
+  // Session operations
+  async getSession(sid: string): Promise<StoredSession | undefined> {
+    const row = this.db.prepare('SELECT data FROM sessions WHERE sid = ?').get(sid) as { data: string } | undefined;
+    return parseSession(row);
+  }
+
+  async setSession(session: StoredSession): Promise<void> {
+    this.db
+      .prepare('INSERT OR REPLACE INTO sessions (sid, user_id, expires_at, data) VALUES (?, ?, ?, ?)')
+      .run(session.sid, session.userId, session.expiresAt.toISOString(), JSON.stringify(session));
+  }
+
+  async touchSession(sid: string, expiresAt: Date, lastSeenAt: Date): Promise<void> {
+    const session = await this.getSession(sid);
+    if (session) {
+      await this.setSession({ ...session, expiresAt, lastSeenAt });
+    }
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    this.db.prepare('DELETE FROM sessions WHERE sid = ?').run(sid);
+  }
+
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM sessions WHERE user_id = ? AND expires_at > ?')
+      .all(userId, new Date().toISOString()) as { data: string }[];
+    return rows.map((row) => parseSession(row)!);
+  }
+
+  async deleteUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    const result = this.db
+      .prepare('DELETE FROM sessions WHERE user_id = ? AND sid != ?')
+      .run(userId, exceptSid ?? '');
+    return result.changes;
+  }
+
+  async deleteExpiredSessions(now: Date): Promise<number> {
+    const result = this.db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(now.toISOString());
+    return result.changes;
+  }
+
+  // Audit log operations
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const id = this.getNextId('auditEntryId');
+    const entry: AuditEntry = { ...insertEntry, id, createdAt: new Date() };
+
+    this.db
+      .prepare('INSERT INTO audit_entries (id, user_id, entity_type, entity_id, data) VALUES (?, ?, ?, ?, ?)')
+      .run(id, entry.userId, entry.entityType, entry.entityId, JSON.stringify(entry));
+    return entry;
+  }
+
+  async getAuditEntries(entityType: AuditEntityType, entityId: number): Promise<AuditEntry[]> {
+    const rows = this.db
+      .prepare('SELECT id, data FROM audit_entries WHERE entity_type = ? AND entity_id = ? ORDER BY id')
+      .all(entityType, entityId) as DocumentRow[];
+    return rows.map((row) => parseDocument<AuditEntry>(row)!);
+  }
+
+  async deleteUserAuditEntries(userId: number): Promise<number> {
+    const result = this.db.prepare('DELETE FROM audit_entries WHERE user_id = ?').run(userId);
+    return result.changes;
+  }
+}
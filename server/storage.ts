@@ -1,7 +1,128 @@
-import { getFirestore, USERS_COLLECTION, TRADES_COLLECTION, COLLECTIONS_COLLECTION, convertFirestoreData, convertFirestoreCollection } from "./firebase";
+import { getFirestore, USERS_COLLECTION, TRADES_COLLECTION, COLLECTIONS_COLLECTION, IMPORT_PROFILES_COLLECTION, EXECUTIONS_COLLECTION, TAGS_COLLECTION, ATTACHMENTS_COLLECTION, API_TOKENS_COLLECTION, USED_TOKENS_COLLECTION, SESSIONS_COLLECTION, AUDIT_LOG_COLLECTION, convertFirestoreData, convertFirestoreCollection } from "./firebase";
 import * as admin from 'firebase-admin';
+import type { User, InsertUser, Trade, InsertTrade, Collection, InsertCollection } from "@shared/schema";
+import { SqliteStorage } from "./sqlite-storage";
+import type { ImportProfile, InsertImportProfile } from "./trade-import";
+import type { Execution, InsertExecution } from "./executions";
+import type { Attachment, InsertAttachment } from "./attachments";
+import type { SubscriptionState } from "./billing";
+import type { ApiToken, InsertApiToken } from "./api-tokens";
+import type { TwoFactorState } from "./two-factor";
+import type { StoredSession } from "./session-store";
+import type { AuditEntityType, AuditEntry, InsertAuditEntry } from "./audit";
+import type { CommissionSchedule } from "./fees";
+import { NotFoundError } from "./errors";
+import { tradeTagIds, type InsertTag, type Tag } from "./tags";
+import { isTrashed, type Trashable, type UserTrash } from "./trash";
+import { DATE_SORT_FIELDS, applyTradeQuery, matchesOutcome, pageFetchSize, toTradePage, withNormalizedSymbol, type TradePage, type TradeQuery } from "./trade-query";
 
-export class FirebaseStorage {
+export interface IStorage {
+  // User operations
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByStripeCustomerId(customerId: string): Promise<User | undefined>;
+  createUser(insertUser: InsertUser): Promise<User>;
+  updateUserStripeInfo(userId: number, stripeInfo: { customerId: string, subscriptionId: string }): Promise<User>;
+  updateUserPlan(userId: number, planType: string): Promise<User>;
+  updateUserSubscription(userId: number, subscription: SubscriptionState): Promise<User>;
+  updateUserPassword(userId: number, passwordHash: string): Promise<User>;
+  setUserEmailVerified(userId: number, emailVerified: boolean): Promise<User>;
+  updateUserTwoFactor(userId: number, twoFactor: Partial<TwoFactorState>): Promise<User>;
+  updateUserBaseCurrency(userId: number, baseCurrency: string): Promise<User>;
+  updateUserCommissionSchedules(userId: number, commissionSchedules: CommissionSchedule[]): Promise<User>;
+  // Removes the user record only, owned records are deleted by the caller
+  deleteUser(id: number): Promise<boolean>;
+
+  // Trade operations
+  // Trashed trades and collections are left out of every read unless asked for
+  createTrade(insertTrade: InsertTrade): Promise<Trade>;
+  getTrade(id: number, includeTrashed?: boolean): Promise<Trade | undefined>;
+  getUserTrades(userId: number): Promise<Trade[]>;
+  queryUserTrades(userId: number, query: TradeQuery): Promise<TradePage>;
+  countUserTrades(userId: number, createdSince?: Date): Promise<number>;
+  getCollectionTrades(collectionId: number): Promise<Trade[]>;
+  updateTrade(id: number, tradeUpdate: Partial<InsertTrade>): Promise<Trade>;
+  // Update several trades in one transaction. update gets the trades as the
+  // transaction reads them, trashed ones included and undefined for missing
+  // ids, and returns the change for each. When it throws, or a trade is
+  // missing, none are updated.
+  updateTrades(ids: number[], update: (trades: (Trade | undefined)[]) => Partial<InsertTrade>[]): Promise<Trade[]>;
+  deleteTrade(id: number): Promise<boolean>;
+  setTradeTags(tradeId: number, tagIds: number[]): Promise<Trade>;
+  // Move a trade to the trash, or back out of it with null
+  setTradeDeletedAt(id: number, deletedAt: Date | null): Promise<Trade>;
+
+  // Execution operations
+  createExecution(insertExecution: InsertExecution): Promise<Execution>;
+  getExecution(tradeId: number, id: number): Promise<Execution | undefined>;
+  getTradeExecutions(tradeId: number): Promise<Execution[]>;
+  updateExecution(tradeId: number, id: number, executionUpdate: Partial<InsertExecution>): Promise<Execution>;
+  deleteExecution(tradeId: number, id: number): Promise<boolean>;
+
+  // Attachment operations
+  createAttachment(insertAttachment: InsertAttachment): Promise<Attachment>;
+  getAttachment(tradeId: number, id: number): Promise<Attachment | undefined>;
+  getTradeAttachments(tradeId: number): Promise<Attachment[]>;
+  countUserAttachments(userId: number): Promise<number>;
+  deleteAttachment(tradeId: number, id: number): Promise<boolean>;
+
+  // Collection operations
+  createCollection(insertCollection: InsertCollection): Promise<Collection>;
+  getCollection(id: number, includeTrashed?: boolean): Promise<Collection | undefined>;
+  getUserCollections(userId: number): Promise<Collection[]>;
+  updateCollection(id: number, collectionUpdate: Partial<InsertCollection>): Promise<Collection>;
+  // Point every trade in a collection at another one, or at none with null
+  moveCollectionTrades(collectionId: number, targetCollectionId: number | null): Promise<number>;
+  // Trades still in the collection are left without one
+  deleteCollection(id: number): Promise<boolean>;
+  setCollectionDeletedAt(id: number, deletedAt: Date | null): Promise<Collection>;
+
+  // Trash operations
+  getUserTrash(userId: number): Promise<UserTrash>;
+  // Everything moved to the trash before the cutoff, across all users
+  getTrashedBefore(cutoff: Date): Promise<UserTrash>;
+
+  // Tag operations
+  createTag(insertTag: InsertTag): Promise<Tag>;
+  getTag(id: number): Promise<Tag | undefined>;
+  getUserTags(userId: number): Promise<Tag[]>;
+  updateTag(id: number, tagUpdate: Partial<InsertTag>): Promise<Tag>;
+  deleteTag(id: number): Promise<boolean>;
+
+  // Import profile operations
+  createImportProfile(insertProfile: InsertImportProfile): Promise<ImportProfile>;
+  getImportProfile(id: number): Promise<ImportProfile | undefined>;
+  getUserImportProfiles(userId: number): Promise<ImportProfile[]>;
+  deleteImportProfile(id: number): Promise<boolean>;
+
+  // API token operations
+  createApiToken(insertToken: InsertApiToken): Promise<ApiToken>;
+  getApiToken(id: number): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getUserApiTokens(userId: number): Promise<ApiToken[]>;
+  touchApiToken(id: number, lastUsedAt: Date): Promise<void>;
+  deleteApiToken(id: number): Promise<boolean>;
+
+  // Record a single-use token as spent. Returns false if it was already used.
+  consumeOneTimeToken(tokenId: string, expiresAt: Date): Promise<boolean>;
+
+  // Session operations
+  getSession(sid: string): Promise<StoredSession | undefined>;
+  setSession(session: StoredSession): Promise<void>;
+  touchSession(sid: string, expiresAt: Date, lastSeenAt: Date): Promise<void>;
+  deleteSession(sid: string): Promise<void>;
+  getUserSessions(userId: number): Promise<StoredSession[]>;
+  deleteUserSessions(userId: number, exceptSid?: string): Promise<number>;
+  deleteExpiredSessions(now: Date): Promise<number>;
+
+  // Audit log operations
+  createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry>;
+  getAuditEntries(entityType: AuditEntityType, entityId: number): Promise<AuditEntry[]>;
+  deleteUserAuditEntries(userId: number): Promise<number>;
+}
+
+export class FirebaseStorage implements IStorage {
   private db: admin.firestore.Firestore;
   private counterRef: admin.firestore.DocumentReference;
 
@@ -17,7 +138,13 @@ export class FirebaseStorage {
       await this.counterRef.set({
         userId: 1,
         tradeId: 1,
-        collectionId: 1
+        collectionId: 1,
+        importProfileId: 1,
+        executionId: 1,
+        tagId: 1,
+        attachmentId: 1,
+        apiTokenId: 1,
+        auditEntryId: 1
       });
     }
   }
@@ -54,6 +181,13 @@ export class FirebaseStorage {
     return userData || undefined;
   }
 
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    const query = await this.db.collection(USERS_COLLECTION).where('stripeCustomerId', '==', customerId).limit(1).get();
+    if (query.empty) return undefined;
+    const userData = convertFirestoreData<User>(query.docs[0]);
+    return userData || undefined;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = await this.getNextId('userId');
     const createdAt = new Date();
@@ -77,7 +211,7 @@ export class FirebaseStorage {
     const userDoc = await userRef.get();
     
     if (!userDoc.exists) {
-      throw new Error("User not found");
+      throw new NotFoundError("User not found");
     }
     
     const updatedData = {
@@ -102,7 +236,7 @@ export class FirebaseStorage {
     const userDoc = await userRef.get();
     
     if (!userDoc.exists) {
-      throw new Error("User not found");
+      throw new NotFoundError("User not found");
     }
     
     await userRef.update({ planType });
@@ -117,13 +251,145 @@ export class FirebaseStorage {
     return updatedUser;
   }
 
+  async updateUserSubscription(userId: number, subscription: SubscriptionState): Promise<User> {
+    const userRef = this.db.collection(USERS_COLLECTION).doc(userId.toString());
+    const userDoc = await userRef.get();
+    
+    if (!userDoc.exists) {
+      throw new NotFoundError("User not found");
+    }
+    
+    await userRef.update({ ...subscription });
+    
+    const updatedUserDoc = await userRef.get();
+    const updatedUser = convertFirestoreData<User>(updatedUserDoc);
+    
+    if (!updatedUser) {
+      throw new Error("Failed to update user");
+    }
+    
+    return updatedUser;
+  }
+
+  async updateUserPassword(userId: number, passwordHash: string): Promise<User> {
+    const userRef = this.db.collection(USERS_COLLECTION).doc(userId.toString());
+    const userDoc = await userRef.get();
+    
+    if (!userDoc.exists) {
+      throw new NotFoundError("User not found");
+    }
+    
+    await userRef.update({ password: passwordHash });
+    
+    const updatedUserDoc = await userRef.get();
+    const updatedUser = convertFirestoreData<User>(updatedUserDoc);
+    
+    if (!updatedUser) {
+      throw new Error("Failed to update user");
+    }
+    
+    return updatedUser;
+  }
+
+  async setUserEmailVerified(userId: number, emailVerified: boolean): Promise<User> {
+    const userRef = this.db.collection(USERS_COLLECTION).doc(userId.toString());
+    const userDoc = await userRef.get();
+    
+    if (!userDoc.exists) {
+      throw new NotFoundError("User not found");
+    }
+    
+    await userRef.update({ emailVerified });
+    
+    const updatedUserDoc = await userRef.get();
+    const updatedUser = convertFirestoreData<User>(updatedUserDoc);
+    
+    if (!updatedUser) {
+      throw new Error("Failed to update user");
+    }
+    
+    return updatedUser;
+  }
+
+  async updateUserTwoFactor(userId: number, twoFactor: Partial<TwoFactorState>): Promise<User> {
+    const userRef = this.db.collection(USERS_COLLECTION).doc(userId.toString());
+    const userDoc = await userRef.get();
+    
+    if (!userDoc.exists) {
+      throw new NotFoundError("User not found");
+    }
+    
+    await userRef.update(twoFactor);
+    
+    const updatedUserDoc = await userRef.get();
+    const updatedUser = convertFirestoreData<User>(updatedUserDoc);
+    
+    if (!updatedUser) {
+      throw new Error("Failed to update user");
+    }
+    
+    return updatedUser;
+  }
+
+  async updateUserBaseCurrency(userId: number, baseCurrency: string): Promise<User> {
+    const userRef = this.db.collection(USERS_COLLECTION).doc(userId.toString());
+    const userDoc = await userRef.get();
+    
+    if (!userDoc.exists) {
+      throw new NotFoundError("User not found");
+    }
+    
+    await userRef.update({ baseCurrency });
+    
+    const updatedUserDoc = await userRef.get();
+    const updatedUser = convertFirestoreData<User>(updatedUserDoc);
+    
+    if (!updatedUser) {
+      throw new Error("Failed to update user");
+    }
+    
+    return updatedUser;
+  }
+
+  async updateUserCommissionSchedules(userId: number, commissionSchedules: CommissionSchedule[]): Promise<User> {
+    const userRef = this.db.collection(USERS_COLLECTION).doc(userId.toString());
+    const userDoc = await userRef.get();
+    
+    if (!userDoc.exists) {
+      throw new NotFoundError("User not found");
+    }
+    
+    await userRef.update({ commissionSchedules });
+    
+    const updatedUserDoc = await userRef.get();
+    const updatedUser = convertFirestoreData<User>(updatedUserDoc);
+    
+    if (!updatedUser) {
+      throw new Error("Failed to update user");
+    }
+    
+    return updatedUser;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const userRef = this.db.collection(USERS_COLLECTION).doc(id.toString());
+    const userDoc = await userRef.get();
+    
+    if (!userDoc.exists) {
+      return false;
+    }
+    
+    await userRef.delete();
+    return true;
+  }
+
   // Trade operations
   async createTrade(insertTrade: InsertTrade): Promise<Trade> {
     const id = await this.getNextId('tradeId');
     const createdAt = new Date();
     
     const trade: Trade = {
-      ...insertTrade,
+      ...withNormalizedSymbol(insertTrade),
       id,
       createdAt,
       notes: insertTrade.notes || null,
@@ -134,20 +400,70 @@ export class FirebaseStorage {
     return trade;
   }
 
-  async getTrade(id: number): Promise<Trade | undefined> {
+  async getTrade(id: number, includeTrashed = false): Promise<Trade | undefined> {
     const tradeDoc = await this.db.collection(TRADES_COLLECTION).doc(id.toString()).get();
     const tradeData = convertFirestoreData<Trade>(tradeDoc);
-    return tradeData || undefined;
+    if (!tradeData || (!includeTrashed && isTrashed(tradeData))) return undefined;
+    return tradeData;
   }
 
+  // Trashed records are filtered out after the query rather than in it, since
+  // documents written before the trash existed have no deletedAt field
   async getUserTrades(userId: number): Promise<Trade[]> {
     const query = await this.db.collection(TRADES_COLLECTION).where('userId', '==', userId).get();
-    return convertFirestoreCollection<Trade>(query);
+    return convertFirestoreCollection<Trade>(query).filter((trade) => !isTrashed(trade));
+  }
+
+  async countUserTrades(userId: number, createdSince?: Date): Promise<number> {
+    let query: admin.firestore.Query = this.db.collection(TRADES_COLLECTION).where('userId', '==', userId);
+    if (createdSince) {
+      query = query.where('createdAt', '>=', createdSince);
+    }
+    const snapshot = await query.count().get();
+    return snapshot.data().count;
+  }
+
+  // Filters map onto Firestore where clauses. Each combination of filters and
+  // sort field needs a composite index, which Firestore reports on first use.
+  async queryUserTrades(userId: number, tradeQuery: TradeQuery): Promise<TradePage> {
+    let query: admin.firestore.Query = this.db.collection(TRADES_COLLECTION).where('userId', '==', userId);
+    
+    if (tradeQuery.from) query = query.where('entryDate', '>=', tradeQuery.from);
+    if (tradeQuery.to) query = query.where('entryDate', '<=', tradeQuery.to);
+    // Symbols are written uppercased, as the query's is
+    if (tradeQuery.symbol) query = query.where('symbol', '==', tradeQuery.symbol);
+    if (tradeQuery.side) query = query.where('side', '==', tradeQuery.side);
+    if (tradeQuery.collectionId !== undefined) query = query.where('collectionId', '==', tradeQuery.collectionId);
+    if (tradeQuery.tagIds) query = query.where('tagIds', 'array-contains-any', tradeQuery.tagIds);
+    
+    query = query.orderBy(tradeQuery.sort, tradeQuery.order).orderBy('id', tradeQuery.order);
+    
+    if (tradeQuery.cursor) {
+      const { value, id } = tradeQuery.cursor;
+      query = query.startAfter(DATE_SORT_FIELDS.includes(tradeQuery.sort) ? new Date(value) : value, id);
+    }
+    
+    // Trashed trades and other outcomes are filtered out after the query, so
+    // keep reading until the page is full
+    const fetchSize = pageFetchSize(tradeQuery);
+    const trades: Trade[] = [];
+    let snapshot: admin.firestore.QuerySnapshot;
+    do {
+      snapshot = await (fetchSize === undefined ? query : query.limit(fetchSize)).get();
+      trades.push(
+        ...convertFirestoreCollection<Trade>(snapshot).filter((trade) => !isTrashed(trade) && matchesOutcome(trade, tradeQuery))
+      );
+      if (!snapshot.empty) {
+        query = query.startAfter(snapshot.docs[snapshot.size - 1]);
+      }
+    } while (fetchSize !== undefined && trades.length < fetchSize && snapshot.size === fetchSize);
+    
+    return toTradePage(trades.slice(0, fetchSize), tradeQuery);
   }
 
   async getCollectionTrades(collectionId: number): Promise<Trade[]> {
     const query = await this.db.collection(TRADES_COLLECTION).where('collectionId', '==', collectionId).get();
-    return convertFirestoreCollection<Trade>(query);
+    return convertFirestoreCollection<Trade>(query).filter((trade) => !isTrashed(trade));
   }
 
   async updateTrade(id: number, tradeUpdate: Partial<InsertTrade>): Promise<Trade> {
@@ -155,10 +471,10 @@ export class FirebaseStorage {
     const tradeDoc = await tradeRef.get();
     
     if (!tradeDoc.exists) {
-      throw new Error("Trade not found");
+      throw new NotFoundError("Trade not found");
     }
     
-    await tradeRef.update(tradeUpdate);
+    await tradeRef.update(withNormalizedSymbol(tradeUpdate));
     
     const updatedTradeDoc = await tradeRef.get();
     const updatedTrade = convertFirestoreData<Trade>(updatedTradeDoc);
@@ -170,6 +486,27 @@ export class FirebaseStorage {
     return updatedTrade;
   }
 
+  async updateTrades(ids: number[], update: (trades: (Trade | undefined)[]) => Partial<InsertTrade>[]): Promise<Trade[]> {
+    if (ids.length === 0) return [];
+    const tradeRefs = ids.map((id) => this.db.collection(TRADES_COLLECTION).doc(id.toString()));
+    
+    // Firestore reruns the function when another write touches these trades
+    // first, so the updates are always computed from what gets overwritten
+    return this.db.runTransaction(async (transaction) => {
+      const trades = (await transaction.getAll(...tradeRefs)).map((doc) => convertFirestoreData<Trade>(doc) ?? undefined);
+      const updates = update(trades);
+      
+      if (trades.some((trade) => !trade)) {
+        throw new NotFoundError("Trade not found");
+      }
+      
+      return updates.map(withNormalizedSymbol).map((tradeUpdate, index) => {
+        transaction.update(tradeRefs[index], tradeUpdate);
+        return { ...trades[index]!, ...tradeUpdate };
+      });
+    });
+  }
+
   async deleteTrade(id: number): Promise<boolean> {
     const tradeRef = this.db.collection(TRADES_COLLECTION).doc(id.toString());
     const tradeDoc = await tradeRef.get();
@@ -178,7 +515,146 @@ export class FirebaseStorage {
       return false;
     }
     
-    await tradeRef.delete();
+    // Firestore does not delete subcollections along with their parent
+    const [executions, attachments] = await Promise.all([
+      tradeRef.collection(EXECUTIONS_COLLECTION).get(),
+      tradeRef.collection(ATTACHMENTS_COLLECTION).get()
+    ]);
+    const batch = this.db.batch();
+    executions.docs.forEach((doc) => batch.delete(doc.ref));
+    attachments.docs.forEach((doc) => batch.delete(doc.ref));
+    batch.delete(tradeRef);
+    await batch.commit();
+    return true;
+  }
+
+  async setTradeTags(tradeId: number, tagIds: number[]): Promise<Trade> {
+    return this.updateTrade(tradeId, { tagIds } as Partial<InsertTrade>);
+  }
+
+  async setTradeDeletedAt(id: number, deletedAt: Date | null): Promise<Trade> {
+    const tradeRef = this.db.collection(TRADES_COLLECTION).doc(id.toString());
+    const tradeDoc = await tradeRef.get();
+    
+    if (!tradeDoc.exists) {
+      throw new NotFoundError("Trade not found");
+    }
+    
+    await tradeRef.update({ deletedAt });
+    
+    const updatedTrade = convertFirestoreData<Trade>(await tradeRef.get());
+    
+    if (!updatedTrade) {
+      throw new Error("Failed to update trade");
+    }
+    
+    return updatedTrade;
+  }
+
+  // Execution operations
+  private executionsRef(tradeId: number) {
+    return this.db.collection(TRADES_COLLECTION).doc(tradeId.toString()).collection(EXECUTIONS_COLLECTION);
+  }
+
+  async createExecution(insertExecution: InsertExecution): Promise<Execution> {
+    const id = await this.getNextId('executionId');
+    
+    const execution: Execution = {
+      ...insertExecution,
+      id,
+      createdAt: new Date()
+    };
+    
+    await this.executionsRef(insertExecution.tradeId).doc(id.toString()).set(execution);
+    return execution;
+  }
+
+  async getExecution(tradeId: number, id: number): Promise<Execution | undefined> {
+    const executionDoc = await this.executionsRef(tradeId).doc(id.toString()).get();
+    const executionData = convertFirestoreData<Execution>(executionDoc);
+    return executionData || undefined;
+  }
+
+  async getTradeExecutions(tradeId: number): Promise<Execution[]> {
+    const query = await this.executionsRef(tradeId).orderBy('timestamp').get();
+    return convertFirestoreCollection<Execution>(query);
+  }
+
+  async updateExecution(tradeId: number, id: number, executionUpdate: Partial<InsertExecution>): Promise<Execution> {
+    const executionRef = this.executionsRef(tradeId).doc(id.toString());
+    const executionDoc = await executionRef.get();
+    
+    if (!executionDoc.exists) {
+      throw new NotFoundError("Execution not found");
+    }
+    
+    await executionRef.update(executionUpdate);
+    
+    const updatedExecutionDoc = await executionRef.get();
+    const updatedExecution = convertFirestoreData<Execution>(updatedExecutionDoc);
+    
+    if (!updatedExecution) {
+      throw new Error("Failed to update execution");
+    }
+    
+    return updatedExecution;
+  }
+
+  async deleteExecution(tradeId: number, id: number): Promise<boolean> {
+    const executionRef = this.executionsRef(tradeId).doc(id.toString());
+    const executionDoc = await executionRef.get();
+    
+    if (!executionDoc.exists) {
+      return false;
+    }
+    
+    await executionRef.delete();
+    return true;
+  }
+
+  // Attachment operations
+  private attachmentsRef(tradeId: number) {
+    return this.db.collection(TRADES_COLLECTION).doc(tradeId.toString()).collection(ATTACHMENTS_COLLECTION);
+  }
+
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const id = await this.getNextId('attachmentId');
+    
+    const attachment: Attachment = {
+      ...insertAttachment,
+      id,
+      createdAt: new Date()
+    };
+    
+    await this.attachmentsRef(insertAttachment.tradeId).doc(id.toString()).set(attachment);
+    return attachment;
+  }
+
+  async getAttachment(tradeId: number, id: number): Promise<Attachment | undefined> {
+    const attachmentDoc = await this.attachmentsRef(tradeId).doc(id.toString()).get();
+    const attachmentData = convertFirestoreData<Attachment>(attachmentDoc);
+    return attachmentData || undefined;
+  }
+
+  async getTradeAttachments(tradeId: number): Promise<Attachment[]> {
+    const query = await this.attachmentsRef(tradeId).orderBy('createdAt').get();
+    return convertFirestoreCollection<Attachment>(query);
+  }
+
+  async countUserAttachments(userId: number): Promise<number> {
+    const snapshot = await this.db.collectionGroup(ATTACHMENTS_COLLECTION).where('userId', '==', userId).count().get();
+    return snapshot.data().count;
+  }
+
+  async deleteAttachment(tradeId: number, id: number): Promise<boolean> {
+    const attachmentRef = this.attachmentsRef(tradeId).doc(id.toString());
+    const attachmentDoc = await attachmentRef.get();
+    
+    if (!attachmentDoc.exists) {
+      return false;
+    }
+    
+    await attachmentRef.delete();
     return true;
   }
 
@@ -198,15 +674,16 @@ export class FirebaseStorage {
     return collection;
   }
 
-  async getCollection(id: number): Promise<Collection | undefined> {
+  async getCollection(id: number, includeTrashed = false): Promise<Collection | undefined> {
     const collectionDoc = await this.db.collection(COLLECTIONS_COLLECTION).doc(id.toString()).get();
     const collectionData = convertFirestoreData<Collection>(collectionDoc);
-    return collectionData || undefined;
+    if (!collectionData || (!includeTrashed && isTrashed(collectionData))) return undefined;
+    return collectionData;
   }
 
   async getUserCollections(userId: number): Promise<Collection[]> {
     const query = await this.db.collection(COLLECTIONS_COLLECTION).where('userId', '==', userId).get();
-    return convertFirestoreCollection<Collection>(query);
+    return convertFirestoreCollection<Collection>(query).filter((collection) => !isTrashed(collection));
   }
 
   async updateCollection(id: number, collectionUpdate: Partial<InsertCollection>): Promise<Collection> {
@@ -214,7 +691,7 @@ export class FirebaseStorage {
     const collectionDoc = await collectionRef.get();
     
     if (!collectionDoc.exists) {
-      throw new Error("Collection not found");
+      throw new NotFoundError("Collection not found");
     }
     
     await collectionRef.update(collectionUpdate);
@@ -229,6 +706,19 @@ export class FirebaseStorage {
     return updatedCollection;
   }
 
+  async moveCollectionTrades(collectionId: number, targetCollectionId: number | null): Promise<number> {
+    const query = await this.db.collection(TRADES_COLLECTION).where('collectionId', '==', collectionId).get();
+    
+    // Batched writes are capped at 500 operations
+    for (let start = 0; start < query.docs.length; start += 500) {
+      const batch = this.db.batch();
+      query.docs.slice(start, start + 500).forEach((doc) => batch.update(doc.ref, { collectionId: targetCollectionId }));
+      await batch.commit();
+    }
+    
+    return query.size;
+  }
+
   async deleteCollection(id: number): Promise<boolean> {
     const collectionRef = this.db.collection(COLLECTIONS_COLLECTION).doc(id.toString());
     const collectionDoc = await collectionRef.get();
@@ -237,9 +727,932 @@ export class FirebaseStorage {
       return false;
     }
     
+    await this.moveCollectionTrades(id, null);
     await collectionRef.delete();
     return true;
   }
-}
 
-export const storage = new FirebaseStorage();
+  async setCollectionDeletedAt(id: number, deletedAt: Date | null): Promise<Collection> {
+    const collectionRef = this.db.collection(COLLECTIONS_COLLECTION).doc(id.toString());
+    const collectionDoc = await collectionRef.get();
+    
+    if (!collectionDoc.exists) {
+      throw new NotFoundError("Collection not found");
+    }
+    
+    await collectionRef.update({ deletedAt });
+    
+    const updatedCollection = convertFirestoreData<Collection>(await collectionRef.get());
+    
+    if (!updatedCollection) {
+      throw new Error("Failed to update collection");
+    }
+    
+    return updatedCollection;
+  }
+
+  // Trash operations
+  // Needs composite indexes on userId + deletedAt for trades and collections
+  async getUserTrash(userId: number): Promise<UserTrash> {
+    const [trades, collections] = await Promise.all([
+      this.db.collection(TRADES_COLLECTION).where('userId', '==', userId).where('deletedAt', '!=', null).get(),
+      this.db.collection(COLLECTIONS_COLLECTION).where('userId', '==', userId).where('deletedAt', '!=', null).get()
+    ]);
+    return {
+      trades: convertFirestoreCollection<Trade>(trades),
+      collections: convertFirestoreCollection<Collection>(collections)
+    };
+  }
+
+  async getTrashedBefore(cutoff: Date): Promise<UserTrash> {
+    const [trades, collections] = await Promise.all([
+      this.db.collection(TRADES_COLLECTION).where('deletedAt', '<=', cutoff).get(),
+      this.db.collection(COLLECTIONS_COLLECTION).where('deletedAt', '<=', cutoff).get()
+    ]);
+    return {
+      trades: convertFirestoreCollection<Trade>(trades),
+      collections: convertFirestoreCollection<Collection>(collections)
+    };
+  }
+
+  // Tag operations
+  async createTag(insertTag: InsertTag): Promise<Tag> {
+    const id = await this.getNextId('tagId');
+    
+    const tag: Tag = {
+      ...insertTag,
+      id,
+      createdAt: new Date()
+    };
+    
+    await this.db.collection(TAGS_COLLECTION).doc(id.toString()).set(tag);
+    return tag;
+  }
+
+  async getTag(id: number): Promise<Tag | undefined> {
+    const tagDoc = await this.db.collection(TAGS_COLLECTION).doc(id.toString()).get();
+    const tagData = convertFirestoreData<Tag>(tagDoc);
+    return tagData || undefined;
+  }
+
+  async getUserTags(userId: number): Promise<Tag[]> {
+    const query = await this.db.collection(TAGS_COLLECTION).where('userId', '==', userId).get();
+    return convertFirestoreCollection<Tag>(query);
+  }
+
+  async updateTag(id: number, tagUpdate: Partial<InsertTag>): Promise<Tag> {
+    const tagRef = this.db.collection(TAGS_COLLECTION).doc(id.toString());
+    const tagDoc = await tagRef.get();
+    
+    if (!tagDoc.exists) {
+      throw new NotFoundError("Tag not found");
+    }
+    
+    await tagRef.update(tagUpdate);
+    
+    const updatedTagDoc = await tagRef.get();
+    const updatedTag = convertFirestoreData<Tag>(updatedTagDoc);
+    
+    if (!updatedTag) {
+      throw new Error("Failed to update tag");
+    }
+    
+    return updatedTag;
+  }
+
+  async deleteTag(id: number): Promise<boolean> {
+    const tagRef = this.db.collection(TAGS_COLLECTION).doc(id.toString());
+    const tagDoc = await tagRef.get();
+    
+    if (!tagDoc.exists) {
+      return false;
+    }
+    
+    // Untag every trade carrying the tag along with deleting it
+    const taggedTrades = await this.db.collection(TRADES_COLLECTION).where('tagIds', 'array-contains', id).get();
+    const batch = this.db.batch();
+    taggedTrades.docs.forEach((doc) => batch.update(doc.ref, { tagIds: admin.firestore.FieldValue.arrayRemove(id) }));
+    batch.delete(tagRef);
+    await batch.commit();
+    return true;
+  }
+
+  // Import profile operations
+  async createImportProfile(insertProfile: InsertImportProfile): Promise<ImportProfile> {
+    const id = await this.getNextId('importProfileId');
+    
+    const profile: ImportProfile = {
+      ...insertProfile,
+      id,
+      createdAt: new Date()
+    };
+    
+    await this.db.collection(IMPORT_PROFILES_COLLECTION).doc(id.toString()).set(profile);
+    return profile;
+  }
+
+  async getImportProfile(id: number): Promise<ImportProfile | undefined> {
+    const profileDoc = await this.db.collection(IMPORT_PROFILES_COLLECTION).doc(id.toString()).get();
+    const profileData = convertFirestoreData<ImportProfile>(profileDoc);
+    return profileData || undefined;
+  }
+
+  async getUserImportProfiles(userId: number): Promise<ImportProfile[]> {
+    const query = await this.db.collection(IMPORT_PROFILES_COLLECTION).where('userId', '==', userId).get();
+    return convertFirestoreCollection<ImportProfile>(query);
+  }
+
+  async deleteImportProfile(id: number): Promise<boolean> {
+    const profileRef = this.db.collection(IMPORT_PROFILES_COLLECTION).doc(id.toString());
+    const profileDoc = await profileRef.get();
+    
+    if (!profileDoc.exists) {
+      return false;
+    }
+    
+    await profileRef.delete();
+    return true;
+  }
+
+  // API token operations
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = await this.getNextId('apiTokenId');
+    
+    const token: ApiToken = {
+      ...insertToken,
+      id,
+      createdAt: new Date()
+    };
+    
+    await this.db.collection(API_TOKENS_COLLECTION).doc(id.toString()).set(token);
+    return token;
+  }
+
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    const tokenDoc = await this.db.collection(API_TOKENS_COLLECTION).doc(id.toString()).get();
+    const tokenData = convertFirestoreData<ApiToken>(tokenDoc);
+    return tokenData || undefined;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const query = await this.db.collection(API_TOKENS_COLLECTION).where('tokenHash', '==', tokenHash).limit(1).get();
+    if (query.empty) return undefined;
+    const tokenData = convertFirestoreData<ApiToken>(query.docs[0]);
+    return tokenData || undefined;
+  }
+
+  async getUserApiTokens(userId: number): Promise<ApiToken[]> {
+    const query = await this.db.collection(API_TOKENS_COLLECTION).where('userId', '==', userId).get();
+    return convertFirestoreCollection<ApiToken>(query);
+  }
+
+  async touchApiToken(id: number, lastUsedAt: Date): Promise<void> {
+    await this.db.collection(API_TOKENS_COLLECTION).doc(id.toString()).update({ lastUsedAt });
+  }
+
+  async deleteApiToken(id: number): Promise<boolean> {
+    const tokenRef = this.db.collection(API_TOKENS_COLLECTION).doc(id.toString());
+    const tokenDoc = await tokenRef.get();
+    
+    if (!tokenDoc.exists) {
+      return false;
+    }
+    
+    await tokenRef.delete();
+    return true;
+  }
+
+  async consumeOneTimeToken(tokenId: string, expiresAt: Date): Promise<boolean> {
+    try {
+      // create() fails if the document exists, which makes this atomic
+      await this.db.collection(USED_TOKENS_COLLECTION).doc(tokenId).create({ expiresAt });
+      return true;
+    } catch (error: any) {
+      // gRPC ALREADY_EXISTS
+      if (error.code === 6) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Session operations
+  async getSession(sid: string): Promise<StoredSession | undefined> {
+    const sessionDoc = await this.db.collection(SESSIONS_COLLECTION).doc(sid).get();
+    const sessionData = convertFirestoreData<StoredSession>(sessionDoc);
+    return sessionData || undefined;
+  }
+
+  async setSession(session: StoredSession): Promise<void> {
+    await this.db.collection(SESSIONS_COLLECTION).doc(session.sid).set(session);
+  }
+
+  async touchSession(sid: string, expiresAt: Date, lastSeenAt: Date): Promise<void> {
+    try {
+      await this.db.collection(SESSIONS_COLLECTION).doc(sid).update({ expiresAt, lastSeenAt });
+    } catch (error: any) {
+      // gRPC NOT_FOUND, the session was revoked in the meantime
+      if (error.code !== 5) {
+        throw error;
+      }
+    }
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await this.db.collection(SESSIONS_COLLECTION).doc(sid).delete();
+  }
+
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const query = await this.db.collection(SESSIONS_COLLECTION).where('userId', '==', userId).get();
+    const now = Date.now();
+    return convertFirestoreCollection<StoredSession>(query).filter((session) => session.expiresAt.getTime() > now);
+  }
+
+  async deleteUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    const query = await this.db.collection(SESSIONS_COLLECTION).where('userId', '==', userId).get();
+    const docs = query.docs.filter((doc) => doc.id !== exceptSid);
+    
+    const batch = this.db.batch();
+    docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+    
+    return docs.length;
+  }
+
+  async deleteExpiredSessions(now: Date): Promise<number> {
+    let deleted = 0;
+    
+    // Batched writes are capped at 500 operations
+    while (true) {
+      const query = await this.db.collection(SESSIONS_COLLECTION).where('expiresAt', '<=', now).limit(500).get();
+      if (query.empty) break;
+      
+      const batch = this.db.batch();
+      query.docs.forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+      deleted += query.size;
+    }
+    
+    return deleted;
+  }
+
+  // Audit log operations
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const id = await this.getNextId('auditEntryId');
+    
+    const entry: AuditEntry = {
+      ...insertEntry,
+      id,
+      createdAt: new Date()
+    };
+    
+    await this.db.collection(AUDIT_LOG_COLLECTION).doc(id.toString()).set(entry);
+    return entry;
+  }
+
+  async getAuditEntries(entityType: AuditEntityType, entityId: number): Promise<AuditEntry[]> {
+    const query = await this.db.collection(AUDIT_LOG_COLLECTION)
+      .where('entityType', '==', entityType)
+      .where('entityId', '==', entityId)
+      .get();
+    return convertFirestoreCollection<AuditEntry>(query).sort((a, b) => a.id - b.id);
+  }
+
+  async deleteUserAuditEntries(userId: number): Promise<number> {
+    let deleted = 0;
+    
+    // Batched writes are capped at 500 operations
+    while (true) {
+      const query = await this.db.collection(AUDIT_LOG_COLLECTION).where('userId', '==', userId).limit(500).get();
+      if (query.empty) break;
+      
+      const batch = this.db.batch();
+      query.docs.forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+      deleted += query.size;
+    }
+    
+    return deleted;
+  }
+}
+
+// In-memory storage for tests and local development. Nothing survives a restart.
+export class MemStorage implements IStorage {
+  private users: Map<number, User>;
+  private trades: Map<number, Trade>;
+  private collections: Map<number, Collection>;
+  private importProfiles: Map<number, ImportProfile>;
+  private executions: Map<number, Execution>;
+  private tags: Map<number, Tag>;
+  private attachments: Map<number, Attachment>;
+  private apiTokens: Map<number, ApiToken>;
+  private usedTokens: Map<string, Date>;
+  private sessions: Map<string, StoredSession>;
+  private auditEntries: Map<number, AuditEntry>;
+  private counters: Record<string, number>;
+
+  constructor() {
+    this.users = new Map();
+    this.trades = new Map();
+    this.collections = new Map();
+    this.importProfiles = new Map();
+    this.executions = new Map();
+    this.tags = new Map();
+    this.attachments = new Map();
+    this.apiTokens = new Map();
+    this.usedTokens = new Map();
+    this.sessions = new Map();
+    this.auditEntries = new Map();
+    this.counters = {
+      userId: 1,
+      tradeId: 1,
+      collectionId: 1,
+      importProfileId: 1,
+      executionId: 1,
+      tagId: 1,
+      attachmentId: 1,
+      apiTokenId: 1,
+      auditEntryId: 1
+    };
+  }
+
+  private getNextId(counterName: string): number {
+    const currentValue = this.counters[counterName] || 1;
+    this.counters[counterName] = currentValue + 1;
+    return currentValue;
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.email === email);
+  }
+
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.stripeCustomerId === customerId);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.getNextId('userId');
+    
+    const user: User = {
+      ...insertUser,
+      id,
+      createdAt: new Date(),
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      planType: "free",
+      avatar: insertUser.avatar || null
+    };
+    
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateUserStripeInfo(userId: number, stripeInfo: { customerId: string, subscriptionId: string }): Promise<User> {
+    const user = this.users.get(userId);
+    
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    
+    const updatedUser: User = {
+      ...user,
+      stripeCustomerId: stripeInfo.customerId,
+      stripeSubscriptionId: stripeInfo.subscriptionId
+    };
+    
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserPlan(userId: number, planType: string): Promise<User> {
+    const user = this.users.get(userId);
+    
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    
+    const updatedUser: User = { ...user, planType };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserSubscription(userId: number, subscription: SubscriptionState): Promise<User> {
+    const user = this.users.get(userId);
+    
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    
+    const updatedUser: User = { ...user, ...subscription };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserPassword(userId: number, passwordHash: string): Promise<User> {
+    const user = this.users.get(userId);
+    
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    
+    const updatedUser: User = { ...user, password: passwordHash };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async setUserEmailVerified(userId: number, emailVerified: boolean): Promise<User> {
+    const user = this.users.get(userId);
+    
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    
+    const updatedUser: User = { ...user, emailVerified } as User;
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserTwoFactor(userId: number, twoFactor: Partial<TwoFactorState>): Promise<User> {
+    const user = this.users.get(userId);
+    
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    
+    const updatedUser: User = { ...user, ...twoFactor } as User;
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserBaseCurrency(userId: number, baseCurrency: string): Promise<User> {
+    const user = this.users.get(userId);
+    
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    
+    const updatedUser: User = { ...user, baseCurrency } as User;
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserCommissionSchedules(userId: number, commissionSchedules: CommissionSchedule[]): Promise<User> {
+    const user = this.users.get(userId);
+    
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    
+    const updatedUser: User = { ...user, commissionSchedules } as User;
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
+  // Trade operations
+  async createTrade(insertTrade: InsertTrade): Promise<Trade> {
+    const id = this.getNextId('tradeId');
+    
+    const trade: Trade = {
+      ...withNormalizedSymbol(insertTrade),
+      id,
+      createdAt: new Date(),
+      notes: insertTrade.notes || null,
+      collectionId: insertTrade.collectionId || null
+    };
+    
+    this.trades.set(id, trade);
+    return trade;
+  }
+
+  async getTrade(id: number, includeTrashed = false): Promise<Trade | undefined> {
+    const trade = this.trades.get(id);
+    if (!trade || (!includeTrashed && isTrashed(trade))) return undefined;
+    return trade;
+  }
+
+  async getUserTrades(userId: number): Promise<Trade[]> {
+    return Array.from(this.trades.values()).filter((trade) => trade.userId === userId && !isTrashed(trade));
+  }
+
+  async queryUserTrades(userId: number, query: TradeQuery): Promise<TradePage> {
+    return applyTradeQuery(await this.getUserTrades(userId), query);
+  }
+
+  async countUserTrades(userId: number, createdSince?: Date): Promise<number> {
+    // Trades in the trash count until they are purged, as in the other backends
+    const trades = Array.from(this.trades.values()).filter((trade) => trade.userId === userId);
+    return createdSince ? trades.filter((trade) => trade.createdAt >= createdSince).length : trades.length;
+  }
+
+  async getCollectionTrades(collectionId: number): Promise<Trade[]> {
+    return Array.from(this.trades.values()).filter((trade) => trade.collectionId === collectionId && !isTrashed(trade));
+  }
+
+  async updateTrade(id: number, tradeUpdate: Partial<InsertTrade>): Promise<Trade> {
+    const trade = this.trades.get(id);
+    
+    if (!trade) {
+      throw new NotFoundError("Trade not found");
+    }
+    
+    const updatedTrade: Trade = { ...trade, ...withNormalizedSymbol(tradeUpdate) };
+    this.trades.set(id, updatedTrade);
+    return updatedTrade;
+  }
+
+  async updateTrades(ids: number[], update: (trades: (Trade | undefined)[]) => Partial<InsertTrade>[]): Promise<Trade[]> {
+    // Look every trade up first, so a missing one leaves the others untouched
+    const trades = ids.map((id) => this.trades.get(id));
+    const updates = update(trades);
+    
+    if (trades.some((trade) => !trade)) {
+      throw new NotFoundError("Trade not found");
+    }
+    
+    return ids.map((id, index) => {
+      const updatedTrade: Trade = { ...trades[index]!, ...withNormalizedSymbol(updates[index]) };
+      this.trades.set(id, updatedTrade);
+      return updatedTrade;
+    });
+  }
+
+  async deleteTrade(id: number): Promise<boolean> {
+    Array.from(this.executions.values())
+      .filter((execution) => execution.tradeId === id)
+      .forEach((execution) => this.executions.delete(execution.id));
+    Array.from(this.attachments.values())
+      .filter((attachment) => attachment.tradeId === id)
+      .forEach((attachment) => this.attachments.delete(attachment.id));
+    return this.trades.delete(id);
+  }
+
+  async setTradeTags(tradeId: number, tagIds: number[]): Promise<Trade> {
+    return this.updateTrade(tradeId, { tagIds } as Partial<InsertTrade>);
+  }
+
+  async setTradeDeletedAt(id: number, deletedAt: Date | null): Promise<Trade> {
+    const trade = this.trades.get(id);
+    
+    if (!trade) {
+      throw new NotFoundError("Trade not found");
+    }
+    
+    const updatedTrade = { ...trade, deletedAt } as Trade;
+    this.trades.set(id, updatedTrade);
+    return updatedTrade;
+  }
+
+  // Execution operations
+  async createExecution(insertExecution: InsertExecution): Promise<Execution> {
+    const id = this.getNextId('executionId');
+    const execution: Execution = { ...insertExecution, id, createdAt: new Date() };
+    this.executions.set(id, execution);
+    return execution;
+  }
+
+  async getExecution(tradeId: number, id: number): Promise<Execution | undefined> {
+    const execution = this.executions.get(id);
+    return execution?.tradeId === tradeId ? execution : undefined;
+  }
+
+  async getTradeExecutions(tradeId: number): Promise<Execution[]> {
+    return Array.from(this.executions.values())
+      .filter((execution) => execution.tradeId === tradeId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async updateExecution(tradeId: number, id: number, executionUpdate: Partial<InsertExecution>): Promise<Execution> {
+    const execution = await this.getExecution(tradeId, id);
+    
+    if (!execution) {
+      throw new NotFoundError("Execution not found");
+    }
+    
+    const updatedExecution: Execution = { ...execution, ...executionUpdate };
+    this.executions.set(id, updatedExecution);
+    return updatedExecution;
+  }
+
+  async deleteExecution(tradeId: number, id: number): Promise<boolean> {
+    if (!(await this.getExecution(tradeId, id))) {
+      return false;
+    }
+    return this.executions.delete(id);
+  }
+
+  // Attachment operations
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const id = this.getNextId('attachmentId');
+    const attachment: Attachment = { ...insertAttachment, id, createdAt: new Date() };
+    this.attachments.set(id, attachment);
+    return attachment;
+  }
+
+  async getAttachment(tradeId: number, id: number): Promise<Attachment | undefined> {
+    const attachment = this.attachments.get(id);
+    return attachment?.tradeId === tradeId ? attachment : undefined;
+  }
+
+  async getTradeAttachments(tradeId: number): Promise<Attachment[]> {
+    return Array.from(this.attachments.values()).filter((attachment) => attachment.tradeId === tradeId);
+  }
+
+  async countUserAttachments(userId: number): Promise<number> {
+    return Array.from(this.attachments.values()).filter((attachment) => attachment.userId === userId).length;
+  }
+
+  async deleteAttachment(tradeId: number, id: number): Promise<boolean> {
+    if (!(await this.getAttachment(tradeId, id))) {
+      return false;
+    }
+    return this.attachments.delete(id);
+  }
+
+  // Collection operations
+  async createCollection(insertCollection: InsertCollection): Promise<Collection> {
+    const id = this.getNextId('collectionId');
+    
+    const collection: Collection = {
+      ...insertCollection,
+      id,
+      createdAt: new Date(),
+      description: insertCollection.description || null
+    };
+    
+    this.collections.set(id, collection);
+    return collection;
+  }
+
+  async getCollection(id: number, includeTrashed = false): Promise<Collection | undefined> {
+    const collection = this.collections.get(id);
+    if (!collection || (!includeTrashed && isTrashed(collection))) return undefined;
+    return collection;
+  }
+
+  async getUserCollections(userId: number): Promise<Collection[]> {
+    return Array.from(this.collections.values()).filter((collection) => collection.userId === userId && !isTrashed(collection));
+  }
+
+  async updateCollection(id: number, collectionUpdate: Partial<InsertCollection>): Promise<Collection> {
+    const collection = this.collections.get(id);
+    
+    if (!collection) {
+      throw new NotFoundError("Collection not found");
+    }
+    
+    const updatedCollection: Collection = { ...collection, ...collectionUpdate };
+    this.collections.set(id, updatedCollection);
+    return updatedCollection;
+  }
+
+  async moveCollectionTrades(collectionId: number, targetCollectionId: number | null): Promise<number> {
+    const trades = Array.from(this.trades.values()).filter((trade) => trade.collectionId === collectionId);
+    trades.forEach((trade) => this.trades.set(trade.id, { ...trade, collectionId: targetCollectionId }));
+    return trades.length;
+  }
+
+  async deleteCollection(id: number): Promise<boolean> {
+    await this.moveCollectionTrades(id, null);
+    return this.collections.delete(id);
+  }
+
+  async setCollectionDeletedAt(id: number, deletedAt: Date | null): Promise<Collection> {
+    const collection = this.collections.get(id);
+    
+    if (!collection) {
+      throw new NotFoundError("Collection not found");
+    }
+    
+    const updatedCollection = { ...collection, deletedAt } as Collection;
+    this.collections.set(id, updatedCollection);
+    return updatedCollection;
+  }
+
+  // Trash operations
+  async getUserTrash(userId: number): Promise<UserTrash> {
+    return {
+      trades: Array.from(this.trades.values()).filter((trade) => trade.userId === userId && isTrashed(trade)),
+      collections: Array.from(this.collections.values()).filter((collection) => collection.userId === userId && isTrashed(collection))
+    };
+  }
+
+  async getTrashedBefore(cutoff: Date): Promise<UserTrash> {
+    const trashedBefore = (record: Trade | Collection) => isTrashed(record) && (record as Trashable).deletedAt! <= cutoff;
+    return {
+      trades: Array.from(this.trades.values()).filter(trashedBefore),
+      collections: Array.from(this.collections.values()).filter(trashedBefore)
+    };
+  }
+
+  // Tag operations
+  async createTag(insertTag: InsertTag): Promise<Tag> {
+    const id = this.getNextId('tagId');
+    const tag: Tag = { ...insertTag, id, createdAt: new Date() };
+    this.tags.set(id, tag);
+    return tag;
+  }
+
+  async getTag(id: number): Promise<Tag | undefined> {
+    return this.tags.get(id);
+  }
+
+  async getUserTags(userId: number): Promise<Tag[]> {
+    return Array.from(this.tags.values()).filter((tag) => tag.userId === userId);
+  }
+
+  async updateTag(id: number, tagUpdate: Partial<InsertTag>): Promise<Tag> {
+    const tag = this.tags.get(id);
+    
+    if (!tag) {
+      throw new NotFoundError("Tag not found");
+    }
+    
+    const updatedTag: Tag = { ...tag, ...tagUpdate };
+    this.tags.set(id, updatedTag);
+    return updatedTag;
+  }
+
+  async deleteTag(id: number): Promise<boolean> {
+    for (const trade of Array.from(this.trades.values())) {
+      const tagIds = tradeTagIds(trade);
+      if (tagIds.includes(id)) {
+        this.trades.set(trade.id, { ...trade, tagIds: tagIds.filter((tagId) => tagId !== id) } as Trade);
+      }
+    }
+    return this.tags.delete(id);
+  }
+
+  // Import profile operations
+  async createImportProfile(insertProfile: InsertImportProfile): Promise<ImportProfile> {
+    const id = this.getNextId('importProfileId');
+    const profile: ImportProfile = { ...insertProfile, id, createdAt: new Date() };
+    this.importProfiles.set(id, profile);
+    return profile;
+  }
+
+  async getImportProfile(id: number): Promise<ImportProfile | undefined> {
+    return this.importProfiles.get(id);
+  }
+
+  async getUserImportProfiles(userId: number): Promise<ImportProfile[]> {
+    return Array.from(this.importProfiles.values()).filter((profile) => profile.userId === userId);
+  }
+
+  async deleteImportProfile(id: number): Promise<boolean> {
+    return this.importProfiles.delete(id);
+  }
+
+  // API token operations
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.getNextId('apiTokenId');
+    const token: ApiToken = { ...insertToken, id, createdAt: new Date() };
+    this.apiTokens.set(id, token);
+    return token;
+  }
+
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    return this.apiTokens.get(id);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async getUserApiTokens(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values()).filter((token) => token.userId === userId);
+  }
+
+  async touchApiToken(id: number, lastUsedAt: Date): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) {
+      this.apiTokens.set(id, { ...token, lastUsedAt });
+    }
+  }
+
+  async deleteApiToken(id: number): Promise<boolean> {
+    return this.apiTokens.delete(id);
+  }
+
+  async consumeOneTimeToken(tokenId: string, expiresAt: Date): Promise<boolean> {
+    if (this.usedTokens.has(tokenId)) {
+      return false;
+    }
+    this.usedTokens.set(tokenId, expiresAt);
+    return true;
+  }
+
+  // Session operations
+  async getSession(sid: string): Promise<StoredSession | undefined> {
+    return this.sessions.get(sid);
+  }
+
+  async setSession(session: StoredSession): Promise<void> {
+    this.sessions.set(session.sid, session);
+  }
+
+  async touchSession(sid: string, expiresAt: Date, lastSeenAt: Date): Promise<void> {
+    const session = this.sessions.get(sid);
+    if (session) {
+      this.sessions.set(sid, { ...session, expiresAt, lastSeenAt });
+    }
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    this.sessions.delete(sid);
+  }
+
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const now = Date.now();
+    return Array.from(this.sessions.values()).filter(
+      (session) => session.userId === userId && session.expiresAt.getTime() > now
+    );
+  }
+
+  async deleteUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    const sessions = Array.from(this.sessions.values()).filter(
+      (session) => session.userId === userId && session.sid !== exceptSid
+    );
+    sessions.forEach((session) => this.sessions.delete(session.sid));
+    return sessions.length;
+  }
+
+  async deleteExpiredSessions(now: Date): Promise<number> {
+    const expired = Array.from(this.sessions.values()).filter((session) => session.expiresAt <= now);
+    expired.forEach((session) => this.sessions.delete(session.sid));
+    return expired.length;
+  }
+
+  // Audit log operations
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const id = this.getNextId('auditEntryId');
+    const entry: AuditEntry = { ...insertEntry, id, createdAt: new Date() };
+    this.auditEntries.set(id, entry);
+    return entry;
+  }
+
+  async getAuditEntries(entityType: AuditEntityType, entityId: number): Promise<AuditEntry[]> {
+    return Array.from(this.auditEntries.values())
+      .filter((entry) => entry.entityType === entityType && entry.entityId === entityId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async deleteUserAuditEntries(userId: number): Promise<number> {
+    const entries = Array.from(this.auditEntries.values()).filter((entry) => entry.userId === userId);
+    entries.forEach((entry) => this.auditEntries.delete(entry.id));
+    return entries.length;
+  }
+}
+
+export type StorageBackend = "firebase" | "memory" | "sqlite";
+
+// Pick the storage backend from STORAGE_BACKEND. When it is not set we keep the
+// old behaviour of using Firebase if credentials are present. Only development
+// falls back to in-memory storage, so the server can boot without any cloud
+// setup; anywhere else that would lose every write on restart.
+export function resolveStorageBackend(): StorageBackend {
+  const configured = process.env.STORAGE_BACKEND?.toLowerCase();
+
+  if (configured === "firebase" || configured === "memory" || configured === "sqlite") {
+    return configured;
+  }
+
+  if (configured) {
+    throw new Error(`Unknown STORAGE_BACKEND "${configured}". Expected firebase, memory or sqlite`);
+  }
+
+  if (process.env.FIREBASE_ADMIN_CREDENTIALS) {
+    return "firebase";
+  }
+
+  const environment = process.env.NODE_ENV || "development";
+  if (environment !== "development") {
+    throw new Error(`No storage backend configured for ${environment}. Set STORAGE_BACKEND, or FIREBASE_ADMIN_CREDENTIALS for Firebase`);
+  }
+
+  console.warn('Missing FIREBASE_ADMIN_CREDENTIALS and STORAGE_BACKEND. Falling back to in-memory storage.');
+  return "memory";
+}
+
+export function createStorage(backend: StorageBackend = resolveStorageBackend()): IStorage {
+  switch (backend) {
+    case "firebase":
+      return new FirebaseStorage();
+    case "sqlite":
+      return new SqliteStorage(process.env.SQLITE_PATH || "data/journal.db");
+    case "memory":
+      return new MemStorage();
+  }
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import type { Trade } from "@shared/schema";
+import { summarizePerformance, type PerformanceSummary, type PnlBasis } from "./analytics";
+
+export const tagCategories = ["setup", "mistake", "emotion", "other"] as const;
+export type TagCategory = typeof tagCategories[number];
+
+export const insertTagSchema = z.object({
+  userId: z.number(),
+  name: z.string().trim().min(1).max(64),
+  category: z.enum(tagCategories).default("other"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).nullable().default(null),
+});
+
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type Tag = InsertTag & { id: number; createdAt: Date };
+
+export const updateTagSchema = insertTagSchema.omit({ userId: true }).partial().strict();
+
+export type UpdateTag = z.infer<typeof updateTagSchema>;
+
+export const tagRecordSchema = insertTagSchema.extend({ id: z.number().int(), createdAt: z.date() });
+
+export const tradeTagsSchema = z.object({
+  tagIds: z.array(z.number().int()).max(50).transform((ids) => Array.from(new Set(ids))),
+});
+
+// Trades carry the ids of their tags in a tagIds array
+export type TaggedTrade = Trade & { tagIds?: number[] };
+
+export function tradeTagIds(trade: Trade): number[] {
+  return (trade as TaggedTrade).tagIds ?? [];
+}
+
+export interface TagPerformance {
+  tag: Tag;
+  summary: PerformanceSummary;
+}
+
+// Performance of the trades carrying each tag. A trade with several tags
+// counts towards each of them.
+export function summarizeByTag(tags: Tag[], trades: Trade[], timezone = "UTC", basis: PnlBasis = "net"): TagPerformance[] {
+  return tags
+    .map((tag) => ({
+      tag,
+      summary: summarizePerformance(trades.filter((trade) => tradeTagIds(trade).includes(tag.id)), timezone, basis),
+    }))
+    .sort((a, b) => b.summary.totalPnl - a.summary.totalPnl);
+}
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// IANA timezone name, such as America/New_York
+export const timezoneSchema = z.string().refine(isValidTimezone, { message: "Unknown timezone" }).default("UTC");
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { builtInImportProfiles, mapImportRecord, parseImportDate } from "./trade-import";
+
+const profiles = builtInImportProfiles;
+
+test("generic dates are read in the given timezone, or UTC", () => {
+  const record = { symbol: "aapl", quantity: "10", entry_date: "2024-03-15", exit_date: "2024-03-15 15:45:00" };
+
+  const utc = mapImportRecord(record, profiles.generic);
+  assert.deepEqual(utc.entryDate, new Date("2024-03-15T00:00:00Z"));
+
+  const newYork = mapImportRecord(record, profiles.generic, "America/New_York");
+  assert.deepEqual(newYork.entryDate, new Date("2024-03-15T04:00:00Z"));
+  assert.deepEqual(newYork.exitDate, new Date("2024-03-15T19:45:00Z"));
+});
+
+test("Interactive Brokers date/times, with and without separators", () => {
+  const statement = mapImportRecord({ Symbol: "ES", Quantity: "-1", "Date/Time": "2024-01-02, 09:30:00" }, profiles["interactive-brokers"], "America/New_York");
+  assert.deepEqual(statement.entryDate, new Date("2024-01-02T14:30:00Z"));
+  assert.equal(statement.side, "short");
+
+  const flex = mapImportRecord({ Symbol: "ES", Quantity: "1", OpenDateTime: "20240102;093000" }, profiles["interactive-brokers"], "America/New_York");
+  assert.deepEqual(flex.entryDate, new Date("2024-01-02T14:30:00Z"));
+});
+
+test("Tradervue US-style date/times", () => {
+  const mapped = mapImportRecord(
+    { Symbol: "MSFT", Volume: "100", "Open Datetime": "01/02/2024 09:30:00", "Close Datetime": "1/2/24 2:15 PM" },
+    profiles.tradervue,
+    "America/Chicago"
+  );
+
+  assert.deepEqual(mapped.entryDate, new Date("2024-01-02T15:30:00Z"));
+  assert.deepEqual(mapped.exitDate, new Date("2024-01-02T20:15:00Z"));
+});
+
+test("TraderSync dates and times from separate columns", () => {
+  const mapped = mapImportRecord(
+    { Symbol: "TSLA", Size: "5", "Open Date": "7/1/2024", "Open Time": "9:30:00 AM", "Close Date": "7/1/2024", "Close Time": "12:05 PM" },
+    profiles.tradersync,
+    "Europe/London"
+  );
+
+  // British Summer Time is UTC+1
+  assert.deepEqual(mapped.entryDate, new Date("2024-07-01T08:30:00Z"));
+  assert.deepEqual(mapped.exitDate, new Date("2024-07-01T11:05:00Z"));
+});
+
+test("explicit offsets win over the timezone", () => {
+  assert.deepEqual(parseImportDate("2024-01-02T14:30:00Z", "Asia/Tokyo"), new Date("2024-01-02T14:30:00Z"));
+  assert.deepEqual(parseImportDate("2024-01-02 09:30:00 -05:00", "Asia/Tokyo"), new Date("2024-01-02T14:30:00Z"));
+});
+
+test("the offset on the day itself is used across DST changes", () => {
+  assert.deepEqual(parseImportDate("2024-03-09 09:30", "America/New_York"), new Date("2024-03-09T14:30:00Z"));
+  assert.deepEqual(parseImportDate("2024-03-11 09:30", "America/New_York"), new Date("2024-03-11T13:30:00Z"));
+});
+
+test("dates that aren't in a known format are invalid", () => {
+  for (const value of ["yesterday", "2024-02-31", "13/01/2024", "2024-01-02 25:00", "Jan 2 2024"]) {
+    assert.ok(isNaN(parseImportDate(value, "UTC").getTime()), value);
+  }
+});
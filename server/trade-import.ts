@@ -0,0 +1,370 @@
+import { z } from "zod";
+import { insertTradeSchema, type InsertTrade, type Trade } from "@shared/schema";
+import { parseCsvRecords } from "./csv";
+import { currencySchema } from "./currency";
+import { timezoneSchema } from "./timezone";
+import type { IStorage } from "./storage";
+
+// Trade fields a CSV column can be mapped onto
+export const importableFields = [
+  "symbol",
+  "side",
+  "quantity",
+  "entryPrice",
+  "exitPrice",
+  "entryDate",
+  "exitDate",
+  // Time of day for entryDate and exitDate, for exports that split the two
+  "entryTime",
+  "exitTime",
+  "notes",
+  "currency",
+] as const;
+
+export type ImportableField = typeof importableFields[number];
+
+// Each field maps to one header, or a list of headers to try in order.
+// Header matching is case-insensitive.
+const columnMappingSchema = z.record(
+  z.enum(importableFields),
+  z.union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+);
+
+export const insertImportProfileSchema = z.object({
+  userId: z.number(),
+  name: z.string().min(1).max(64),
+  delimiter: z.string().length(1).default(","),
+  columns: columnMappingSchema.refine(
+    (columns) => ["symbol", "quantity", "entryDate"].every((field) => field in columns),
+    { message: "Mapping must include symbol, quantity and entryDate columns" }
+  ),
+  // Broker-specific spellings of long/short, e.g. { long: ["BOT"], short: ["SLD"] }
+  sideValues: z.object({
+    long: z.array(z.string()).default([]),
+    short: z.array(z.string()).default([]),
+  }).optional(),
+  // Timezone of dates in the export that don't state an offset. Left unset,
+  // the importer's choice applies, else UTC.
+  timezone: timezoneSchema.optional(),
+});
+
+export type InsertImportProfile = z.infer<typeof insertImportProfileSchema>;
+export type ImportProfile = InsertImportProfile & { id: number; createdAt: Date };
+
+type ProfileDefinition = Omit<InsertImportProfile, "userId">;
+
+// Built-in mapping profiles for common export layouts
+export const builtInImportProfiles: Record<string, ProfileDefinition> = {
+  generic: {
+    name: "generic",
+    delimiter: ",",
+    columns: {
+      symbol: ["symbol", "ticker"],
+      side: ["side", "direction", "type"],
+      quantity: ["quantity", "qty", "shares", "size"],
+      entryPrice: ["entry_price", "entry price", "entryprice", "open price"],
+      exitPrice: ["exit_price", "exit price", "exitprice", "close price"],
+      entryDate: ["entry_date", "entry date", "entrydate", "open date", "opened"],
+      exitDate: ["exit_date", "exit date", "exitdate", "close date", "closed"],
+      notes: ["notes", "note", "comment"],
+      currency: ["currency", "ccy"],
+    },
+  },
+  "interactive-brokers": {
+    name: "interactive-brokers",
+    delimiter: ",",
+    columns: {
+      symbol: "Symbol",
+      side: ["Buy/Sell", "Side"],
+      quantity: "Quantity",
+      entryPrice: ["Open Price", "TradePrice"],
+      exitPrice: ["Close Price", "ClosePrice"],
+      entryDate: ["Open Date/Time", "OpenDateTime", "Date/Time"],
+      exitDate: ["Close Date/Time", "CloseDateTime"],
+      notes: ["Notes/Codes", "Notes"],
+      currency: ["CurrencyPrimary", "Currency"],
+    },
+    sideValues: { long: ["BUY", "BOT"], short: ["SELL", "SLD"] },
+  },
+  tradervue: {
+    name: "tradervue",
+    delimiter: ",",
+    columns: {
+      symbol: "Symbol",
+      side: "Side",
+      quantity: "Volume",
+      entryPrice: "Entry Price",
+      exitPrice: "Exit Price",
+      entryDate: "Open Datetime",
+      exitDate: "Close Datetime",
+      notes: "Notes",
+      currency: "Currency",
+    },
+  },
+  tradersync: {
+    name: "tradersync",
+    delimiter: ",",
+    columns: {
+      symbol: "Symbol",
+      side: "Side",
+      quantity: "Size",
+      entryPrice: "Entry Price",
+      exitPrice: "Exit Price",
+      entryDate: "Open Date",
+      entryTime: "Open Time",
+      exitDate: "Close Date",
+      exitTime: "Close Time",
+      notes: "Notes",
+      currency: "Currency",
+    },
+  },
+};
+
+const LONG_VALUES = ["long", "buy", "b", "bto", "bot"];
+const SHORT_VALUES = ["short", "sell", "s", "ss", "sto", "sld", "sell short"];
+
+const NUMERIC_FIELDS: ImportableField[] = ["quantity", "entryPrice", "exitPrice"];
+const DATE_FIELDS: ImportableField[] = ["entryDate", "exitDate"];
+const TIME_FIELDS: Partial<Record<ImportableField, ImportableField>> = { entryDate: "entryTime", exitDate: "exitTime" };
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+  errors?: z.ZodIssue[];
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  trades: Trade[];
+  errors: ImportRowError[];
+  duplicates: { row: number; symbol: string; entryDate: Date; quantity: number }[];
+}
+
+// Key used to detect a trade that has already been recorded
+export function tradeDuplicateKey(trade: { symbol: string; entryDate: Date | string; quantity: number | string }) {
+  return [
+    String(trade.symbol).trim().toUpperCase(),
+    new Date(trade.entryDate).getTime(),
+    Number(trade.quantity),
+  ].join("|");
+}
+
+const YMD_DATE = /^(\d{4})-?(\d{2})-?(\d{2})(?:(?:T|;|,?\s+)(\d{1,2}):?(\d{2})(?::?(\d{2})(?:\.\d+)?)?\s*(AM|PM)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?$/i;
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+function timezoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+// Read a date as ISO (2024-01-02 14:30), compact (20240102;143000) or US
+// (01/02/2024 2:30 PM) order. Values without an offset are wall-clock time
+// in the given timezone; anything else is an invalid date.
+export function parseImportDate(value: string, timezone: string): Date {
+  const trimmed = value.trim();
+  let match = trimmed.match(YMD_DATE);
+  let year: number, month: number, day: number;
+  let zone: string | undefined;
+  if (match) {
+    [year, month, day] = match.slice(1, 4).map(Number);
+    zone = match[8];
+  } else if ((match = trimmed.match(US_DATE))) {
+    [month, day, year] = match.slice(1, 4).map(Number);
+    if (year < 100) year += 2000;
+  } else {
+    return new Date(NaN);
+  }
+
+  let hour = Number(match[4] ?? 0);
+  const minute = Number(match[5] ?? 0);
+  const second = Number(match[6] ?? 0);
+  const meridiem = match[7]?.toUpperCase();
+  if (meridiem && (hour < 1 || hour > 12)) return new Date(NaN);
+  if (meridiem) hour = (hour % 12) + (meridiem === "PM" ? 12 : 0);
+
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  // Rejects dates like 2024-02-31 that Date would roll over into March
+  const check = new Date(wallClock);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day || hour > 23 || minute > 59 || second > 59) {
+    return new Date(NaN);
+  }
+
+  if (zone) {
+    const [, sign, hours, minutes] = zone.toUpperCase() === "Z" ? ["", "+", "00", "00"] : zone.match(/([+-])(\d{2}):?(\d{2})/)!;
+    const offset = (Number(hours) * 60 + Number(minutes)) * 60000;
+    return new Date(wallClock - (sign === "-" ? -offset : offset));
+  }
+
+  // The offset can change across a DST switch, so check it at the result
+  const guess = wallClock - timezoneOffset(wallClock, timezone);
+  return new Date(wallClock - timezoneOffset(guess, timezone));
+}
+
+// Value of the first header in the profile's order that the record has
+function findColumn(record: Record<string, string>, headers: string | string[]): string | undefined {
+  const keys = new Map(Object.keys(record).map((key) => [key.toLowerCase(), key]));
+  for (const header of Array.isArray(headers) ? headers : [headers]) {
+    const key = keys.get(header.toLowerCase());
+    if (key !== undefined && record[key] !== "") {
+      return record[key];
+    }
+  }
+  return undefined;
+}
+
+function parseNumber(value: string): number {
+  // Accept "1,234.50", "$12.00" and accounting style "(12.00)"
+  const negative = /^\(.*\)$/.test(value);
+  const cleaned = value.replace(/[,$()\s]/g, "");
+  const parsed = Number(cleaned);
+  return negative ? -parsed : parsed;
+}
+
+function parseSide(value: string, profile: ProfileDefinition): string | undefined {
+  const normalized = value.trim().toLowerCase();
+  const longValues = [...LONG_VALUES, ...(profile.sideValues?.long ?? []).map((v) => v.toLowerCase())];
+  const shortValues = [...SHORT_VALUES, ...(profile.sideValues?.short ?? []).map((v) => v.toLowerCase())];
+
+  if (longValues.includes(normalized)) return "long";
+  if (shortValues.includes(normalized)) return "short";
+  return undefined;
+}
+
+// Map one CSV record onto trade fields using the given profile. Dates
+// without an offset are read in timezone.
+export function mapImportRecord(
+  record: Record<string, string>,
+  profile: ProfileDefinition,
+  timezone = profile.timezone ?? "UTC"
+): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {};
+
+  const timeFields = Object.values(TIME_FIELDS);
+
+  for (const field of importableFields) {
+    const headers = profile.columns[field];
+    // Times are read along with their date
+    if (!headers || timeFields.includes(field)) continue;
+
+    const raw = findColumn(record, headers);
+    if (raw === undefined) continue;
+
+    if (NUMERIC_FIELDS.includes(field)) {
+      mapped[field] = parseNumber(raw);
+    } else if (DATE_FIELDS.includes(field)) {
+      const timeHeaders = profile.columns[TIME_FIELDS[field]!];
+      const time = timeHeaders && findColumn(record, timeHeaders);
+      mapped[field] = parseImportDate(time ? `${raw} ${time}` : raw, timezone);
+    } else if (field === "side") {
+      mapped[field] = parseSide(raw, profile) ?? raw;
+    } else if (field === "symbol" || field === "currency") {
+      mapped[field] = raw.toUpperCase();
+    } else {
+      mapped[field] = raw;
+    }
+  }
+
+  // Negative quantities are how some brokers express a short position
+  if (typeof mapped.quantity === "number" && mapped.quantity < 0) {
+    mapped.quantity = Math.abs(mapped.quantity);
+    mapped.side ??= "short";
+  }
+
+  return mapped;
+}
+
+export async function resolveImportProfile(storage: IStorage, userId: number, name: string): Promise<ProfileDefinition | undefined> {
+  const userProfiles = await storage.getUserImportProfiles(userId);
+  const custom = userProfiles.find((profile) => profile.name === name);
+  return custom ?? builtInImportProfiles[name];
+}
+
+// Currency isn't part of @shared/schema, zod would otherwise strip it
+const importTradeSchema = insertTradeSchema.extend({ currency: currencySchema });
+
+// Validate every row, skip duplicates and create the remaining trades. Rows
+// without a currency column are recorded in the given default currency, and
+// dates in the given timezone, else the profile's.
+export async function importTrades(
+  storage: IStorage,
+  options: {
+    userId: number;
+    csv: string;
+    profile: ProfileDefinition;
+    collectionId?: number | null;
+    maxTrades?: number | null;
+    currency: string;
+    timezone?: string;
+  }
+): Promise<ImportResult> {
+  const { userId, csv, profile, collectionId, maxTrades = null, currency, timezone } = options;
+  const { records } = parseCsvRecords(csv, profile.delimiter);
+
+  const result: ImportResult = { imported: 0, skipped: 0, trades: [], errors: [], duplicates: [] };
+
+  const existingTrades = await storage.getUserTrades(userId);
+  const seen = new Set(existingTrades.map((trade) => tradeDuplicateKey(trade)));
+
+  const toCreate: { row: number; trade: InsertTrade }[] = [];
+
+  records.forEach((record, index) => {
+    // Row numbers are 1-based and account for the header line
+    const row = index + 2;
+    const validateResult = importTradeSchema.safeParse({
+      currency,
+      ...mapImportRecord(record, profile, timezone ?? profile.timezone),
+      ...(collectionId ? { collectionId } : {}),
+      userId,
+    });
+
+    if (!validateResult.success) {
+      result.errors.push({ row, message: "Invalid trade data", errors: validateResult.error.errors });
+      return;
+    }
+
+    const trade = validateResult.data;
+    const key = tradeDuplicateKey(trade);
+    if (seen.has(key)) {
+      result.duplicates.push({
+        row,
+        symbol: trade.symbol,
+        entryDate: new Date(trade.entryDate),
+        quantity: Number(trade.quantity),
+      });
+      return;
+    }
+
+    seen.add(key);
+    toCreate.push({ row, trade });
+  });
+
+  for (const { row, trade } of toCreate) {
+    if (maxTrades !== null && result.trades.length >= maxTrades) {
+      result.errors.push({ row, message: "Trade limit for your plan reached" });
+      continue;
+    }
+
+    try {
+      result.trades.push(await storage.createTrade(trade));
+    } catch (error: any) {
+      result.errors.push({ row, message: error.message || "Failed to create trade" });
+    }
+  }
+
+  result.imported = result.trades.length;
+  result.skipped = result.errors.length + result.duplicates.length;
+  return result;
+}
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Trade } from "@shared/schema";
+import { applyTradeQuery, decodeCursor, encodeCursor, tradeQuerySchema, withNormalizedSymbol } from "./trade-query";
+
+function trade(id: number, fields: Partial<Trade> & { tagIds?: number[] } = {}): Trade {
+  return {
+    id,
+    userId: 1,
+    symbol: "AAPL",
+    side: "long",
+    quantity: 10,
+    entryPrice: 100,
+    exitPrice: null,
+    entryDate: new Date(Date.UTC(2024, 0, id)),
+    exitDate: null,
+    collectionId: null,
+    createdAt: new Date(Date.UTC(2024, 1, 1)),
+    ...fields,
+  } as unknown as Trade;
+}
+
+const query = (params: Record<string, string> = {}) => tradeQuerySchema.parse(params);
+
+test("cursors round-trip and anything else is rejected", () => {
+  const cursor = { sort: "symbol" as const, value: "AAPL", id: 7 };
+  assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+
+  assert.equal(decodeCursor("not a cursor"), undefined);
+  assert.equal(decodeCursor(Buffer.from(JSON.stringify({ ...cursor, sort: "pnl" })).toString("base64url")), undefined);
+  assert.equal(decodeCursor(Buffer.from(JSON.stringify({ ...cursor, id: "7" })).toString("base64url")), undefined);
+});
+
+test("a cursor has to match the sort, and date filters need the entryDate sort", () => {
+  const cursor = encodeCursor({ sort: "entryDate", value: "2024-01-01T00:00:00.000Z", id: 1 });
+
+  assert.equal(tradeQuerySchema.safeParse({ sort: "symbol", cursor }).success, false);
+  assert.equal(tradeQuerySchema.safeParse({ cursor: "garbage" }).success, false);
+  assert.equal(tradeQuerySchema.safeParse({ sort: "createdAt", from: "2024-01-01" }).success, false);
+  assert.equal(tradeQuerySchema.safeParse({ from: "2024-01-01", cursor }).success, true);
+});
+
+test("pages follow on from their cursor without repeats or gaps", () => {
+  const trades = [1, 2, 3, 4, 5].map((id) => trade(id));
+
+  const first = applyTradeQuery(trades, query({ limit: "2" }));
+  assert.deepEqual(first.trades.map((t) => t.id), [5, 4]);
+
+  const second = applyTradeQuery(trades, query({ limit: "2", cursor: first.nextCursor! }));
+  assert.deepEqual(second.trades.map((t) => t.id), [3, 2]);
+
+  const last = applyTradeQuery(trades, query({ limit: "2", cursor: second.nextCursor! }));
+  assert.deepEqual(last.trades.map((t) => t.id), [1]);
+  assert.equal(last.nextCursor, null);
+});
+
+test("equal sort values are ordered by id", () => {
+  const trades = [trade(3, { symbol: "MSFT" }), trade(1), trade(2)];
+
+  const page = applyTradeQuery(trades, query({ sort: "symbol", order: "asc", limit: "1" }));
+  assert.deepEqual(page.trades.map((t) => t.id), [1]);
+
+  const next = applyTradeQuery(trades, query({ sort: "symbol", order: "asc", cursor: page.nextCursor! }));
+  assert.deepEqual(next.trades.map((t) => t.id), [2, 3]);
+});
+
+test("filters combine, and symbols match whatever their case", () => {
+  const trades = [
+    trade(1, { symbol: "aapl", exitPrice: 110, exitDate: new Date(Date.UTC(2024, 0, 10)), tagIds: [4] } as Partial<Trade>),
+    trade(2, { exitPrice: 90, exitDate: new Date(Date.UTC(2024, 0, 10)), tagIds: [4] } as Partial<Trade>),
+    trade(3, { side: "short", tagIds: [4] } as Partial<Trade>),
+    trade(4, { symbol: "MSFT", exitPrice: 120, exitDate: new Date(Date.UTC(2024, 0, 10)) }),
+  ];
+
+  const wins = applyTradeQuery(trades, query({ symbol: "Aapl", outcome: "win" }));
+  assert.deepEqual(wins.trades.map((t) => t.id), [1]);
+  assert.equal((wins.trades[0] as Trade & { outcome: string }).outcome, "win");
+
+  const tagged = applyTradeQuery(trades, query({ tagIds: "4, 9", side: "long", to: "2024-01-02T00:00:00Z" }));
+  assert.deepEqual(tagged.trades.map((t) => t.id), [2, 1]);
+});
+
+test("symbols are uppercased for storage, and updates without one are left alone", () => {
+  assert.deepEqual(withNormalizedSymbol({ symbol: "brk.b", quantity: 1 }), { symbol: "BRK.B", quantity: 1 });
+  assert.deepEqual(withNormalizedSymbol<{ symbol?: string; notes: string }>({ notes: "x" }), { notes: "x" });
+});
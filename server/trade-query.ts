@@ -0,0 +1,166 @@
+import { z } from "zod";
+import type { Trade } from "@shared/schema";
+import { calculateTradePnl } from "./pnl";
+import { tradeTagIds } from "./tags";
+
+export const tradeOutcomes = ["win", "loss", "breakeven", "open"] as const;
+export type TradeOutcome = typeof tradeOutcomes[number];
+
+// Fields trades can be sorted on. Each is always set, which keeps keyset
+// pagination simple.
+export const tradeSortFields = ["entryDate", "createdAt", "symbol"] as const;
+export type TradeSortField = typeof tradeSortFields[number];
+
+export const DATE_SORT_FIELDS: TradeSortField[] = ["entryDate", "createdAt"];
+
+// Position of the last trade on a page: its sort value and id as a tie-breaker
+export interface TradeCursor {
+  sort: TradeSortField;
+  value: string;
+  id: number;
+}
+
+export function encodeCursor(cursor: TradeCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(encoded: string): TradeCursor | undefined {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, "base64url").toString("utf-8"));
+    if (
+      tradeSortFields.includes(cursor.sort) &&
+      typeof cursor.value === "string" &&
+      typeof cursor.id === "number"
+    ) {
+      return cursor;
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+export const tradeQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  symbol: z.string().trim().min(1).transform((symbol) => symbol.toUpperCase()).optional(),
+  side: z.enum(["long", "short"]).optional(),
+  outcome: z.enum(tradeOutcomes).optional(),
+  collectionId: z.coerce.number().int().optional(),
+  // Comma separated tag ids, matches trades carrying any of them
+  tagIds: z.string()
+    .transform((ids) => ids.split(",").map((id) => Number(id.trim())))
+    .pipe(z.array(z.number().int()).min(1).max(30))
+    .optional(),
+  sort: z.enum(tradeSortFields).default("entryDate"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  // Without a limit or cursor GET /api/trades returns every match, as it
+  // did before it had pages
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+  cursor: z.string().transform((encoded, ctx) => {
+    const cursor = decodeCursor(encoded);
+    if (!cursor) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+      return z.NEVER;
+    }
+    return cursor;
+  }).optional(),
+}).refine((query) => !query.cursor || query.cursor.sort === query.sort, {
+  message: "Cursor does not match the requested sort",
+  path: ["cursor"],
+}).refine((query) => (!query.from && !query.to) || query.sort === "entryDate", {
+  // Firestore can only range over the field it orders by first
+  message: "Trades filtered by date can only be sorted by entryDate",
+  path: ["sort"],
+});
+
+export const DEFAULT_TRADE_PAGE_SIZE = 50;
+
+export type TradeQuery = z.infer<typeof tradeQuerySchema>;
+
+export interface TradePage {
+  trades: Trade[];
+  nextCursor: string | null;
+}
+
+export function tradeOutcome(trade: Trade): TradeOutcome {
+  const pnl = calculateTradePnl(trade);
+  if (pnl === null) return "open";
+  if (pnl > 0) return "win";
+  if (pnl < 0) return "loss";
+  return "breakeven";
+}
+
+// Outcome is worked out when trades are listed rather than stored, since
+// it changes with anything that goes into P&L: fills, fees, multipliers
+export function withTradeOutcome<T extends Trade>(trade: T): T & { outcome: TradeOutcome } {
+  return { ...trade, outcome: tradeOutcome(trade) };
+}
+
+// Backends filter on outcome after the query, as it isn't a stored field
+export function matchesOutcome(trade: Trade, query: TradeQuery): boolean {
+  return !query.outcome || tradeOutcome(trade) === query.outcome;
+}
+
+// Rows to fetch for a page: one more than fits tells whether there's another
+export function pageFetchSize(query: TradeQuery): number | undefined {
+  return query.limit === undefined ? undefined : query.limit + 1;
+}
+
+// Symbols are stored uppercased, so every backend can filter on them with a
+// plain equality match
+export function withNormalizedSymbol<T extends { symbol?: unknown }>(trade: T): T {
+  return typeof trade.symbol === "string" ? { ...trade, symbol: trade.symbol.toUpperCase() } : trade;
+}
+
+export function tradeSortValue(trade: Trade, sort: TradeSortField): string {
+  const value = trade[sort];
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// Trim a result fetched with limit + 1 rows down to a page and its cursor
+export function toTradePage(trades: Trade[], query: TradeQuery): TradePage {
+  if (query.limit === undefined || trades.length <= query.limit) {
+    return { trades: trades.map(withTradeOutcome), nextCursor: null };
+  }
+
+  const page = trades.slice(0, query.limit).map(withTradeOutcome);
+  const last = page[page.length - 1];
+  return {
+    trades: page,
+    nextCursor: encodeCursor({ sort: query.sort, value: tradeSortValue(last, query.sort), id: last.id }),
+  };
+}
+
+// Reference implementation of a trade query over an in-memory list
+export function applyTradeQuery(trades: Trade[], query: TradeQuery): TradePage {
+  const direction = query.order === "asc" ? 1 : -1;
+
+  const compare = (a: Trade, b: Trade) => {
+    const byValue = tradeSortValue(a, query.sort).localeCompare(tradeSortValue(b, query.sort));
+    return (byValue || a.id - b.id) * direction;
+  };
+
+  const matching = trades
+    .filter((trade) => {
+      const entryDate = new Date(trade.entryDate);
+      if (query.from && entryDate < query.from) return false;
+      if (query.to && entryDate > query.to) return false;
+      if (query.symbol && String(trade.symbol).toUpperCase() !== query.symbol) return false;
+      if (query.side && trade.side !== query.side) return false;
+      if (!matchesOutcome(trade, query)) return false;
+      if (query.collectionId !== undefined && trade.collectionId !== query.collectionId) return false;
+      if (query.tagIds && !tradeTagIds(trade).some((id) => query.tagIds!.includes(id))) return false;
+
+      if (query.cursor) {
+        const { value, id } = query.cursor;
+        const byValue = tradeSortValue(trade, query.sort).localeCompare(value);
+        if ((byValue || trade.id - id) * direction <= 0) return false;
+      }
+
+      return true;
+    })
+    .sort(compare);
+
+  return toTradePage(matching.slice(0, pageFetchSize(query)), query);
+}
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { insertTradeSchema } from "@shared/schema";
+import { currencySchema } from "./currency";
+import { matchingMethods } from "./executions";
+import { tradeFeesSchema } from "./fees";
+import { instrumentObjectSchema } from "./instruments";
+import { tradeOutcomes } from "./trade-query";
+
+// Fields a trade update may change. The owner, id and creation time are
+// fixed, tags and the trash have their own routes, and fields derived from
+// executions or a commission schedule are recomputed on every write.
+export const updateTradeSchema = insertTradeSchema
+  .omit({ userId: true })
+  .extend({ currency: currencySchema, matchingMethod: z.enum(matchingMethods) })
+  .merge(tradeFeesSchema)
+  .merge(instrumentObjectSchema)
+  .partial()
+  .strict();
+
+export type UpdateTrade = z.infer<typeof updateTradeSchema>;
+
+// The body of a new trade, for the OpenAPI document. The route checks the
+// instrument first, since a spread's side and prices come from its legs, and
+// defaults the currency to the user's base currency.
+export const createTradeSchema = insertTradeSchema
+  .omit({ userId: true })
+  .extend({ currency: currencySchema.optional() })
+  .merge(tradeFeesSchema)
+  .merge(instrumentObjectSchema);
+
+// Trades as the API returns them
+export const tradeRecordSchema = insertTradeSchema
+  .extend({ currency: currencySchema, matchingMethod: z.enum(matchingMethods).optional() })
+  .merge(tradeFeesSchema)
+  .merge(instrumentObjectSchema)
+  .extend({
+    id: z.number().int(),
+    createdAt: z.date(),
+    // Set on trades listed by GET /api/trades
+    outcome: z.enum(tradeOutcomes).optional(),
+    tagIds: z.array(z.number().int()).optional(),
+    commissionSchedule: z.string().nullish(),
+    // Totals of the executions, on trades that have them
+    openQuantity: z.number().nullish(),
+    realizedPnl: z.number().nullish(),
+    deletedAt: z.date().nullish(),
+  });
+
+export const tradePageSchema = z.object({
+  trades: z.array(tradeRecordSchema),
+  nextCursor: z.string().nullable(),
+});
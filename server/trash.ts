@@ -0,0 +1,122 @@
+import type { Collection, Trade } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { deleteTradeWithAttachments, type AttachmentStore } from "./attachments";
+import { recordChange } from "./audit";
+import { log } from "./log";
+
+// How long deleted trades and collections stay restorable
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Deleted records carry the time they were moved to the trash
+export type Trashable = { deletedAt?: Date | null };
+
+export interface UserTrash {
+  trades: Trade[];
+  collections: Collection[];
+}
+
+export interface TrashItem {
+  type: "trade" | "collection";
+  id: number;
+  deletedAt: Date;
+  expiresAt: Date;
+  item: Trade | Collection;
+}
+
+export function isTrashed(record: object): boolean {
+  return !!(record as Trashable).deletedAt;
+}
+
+export function deletedAt(record: object): Date {
+  return new Date((record as Trashable).deletedAt!);
+}
+
+export function trashExpiresAt(deleted: Date, retentionDays = TRASH_RETENTION_DAYS): Date {
+  return new Date(deleted.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+// Trash contents, most recently deleted first
+export function toTrashItems(trash: UserTrash, retentionDays = TRASH_RETENTION_DAYS): TrashItem[] {
+  const items: TrashItem[] = [
+    ...trash.trades.map((item) => ({ type: "trade" as const, item })),
+    ...trash.collections.map((item) => ({ type: "collection" as const, item })),
+  ].map(({ type, item }) => ({
+    type,
+    id: item.id,
+    deletedAt: deletedAt(item),
+    expiresAt: trashExpiresAt(deletedAt(item), retentionDays),
+    item,
+  }));
+
+  return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+}
+
+// A trashed collection together with the trades deleted along with it
+export function collectionTrash(trash: UserTrash, collection: Collection): UserTrash {
+  const deleted = deletedAt(collection).getTime();
+  return {
+    trades: trash.trades.filter((trade) => trade.collectionId === collection.id && deletedAt(trade).getTime() === deleted),
+    collections: [collection],
+  };
+}
+
+// Take a trade out of the trash. It loses its collection if that is no
+// longer around, rather than pointing at one the user can't see.
+export async function restoreTrade(storage: IStorage, trade: Trade): Promise<Trade> {
+  const restored = await storage.setTradeDeletedAt(trade.id, null);
+  if (restored.collectionId != null && !(await storage.getCollection(restored.collectionId))) {
+    return storage.updateTrade(restored.id, { collectionId: null });
+  }
+  return restored;
+}
+
+// Take a collection out of the trash, with the trades deleted along with it
+export async function restoreCollection(storage: IStorage, trash: UserTrash, collection: Collection): Promise<{ collection: Collection; trades: Trade[] }> {
+  const restoredCollection = await storage.setCollectionDeletedAt(collection.id, null);
+  const trades: Trade[] = [];
+  for (const trade of collectionTrash(trash, collection).trades) {
+    trades.push(await storage.setTradeDeletedAt(trade.id, null));
+  }
+  return { collection: restoredCollection, trades };
+}
+
+// Permanently delete trashed records and note it in their history. Trades
+// go first, so deleting a collection doesn't have to unassign trades that
+// are about to go anyway.
+export async function purgeTrash(storage: IStorage, store: AttachmentStore, trash: UserTrash): Promise<{ trades: number; collections: number }> {
+  for (const trade of trash.trades) {
+    await deleteTradeWithAttachments(storage, store, trade.id);
+    await recordChange(storage, { userId: trade.userId, apiTokenId: null }, "trade", trade.id, "purge", trade, null);
+  }
+  for (const collection of trash.collections) {
+    await storage.deleteCollection(collection.id);
+    await recordChange(storage, { userId: collection.userId, apiTokenId: null }, "collection", collection.id, "purge", collection, null);
+  }
+  return { trades: trash.trades.length, collections: trash.collections.length };
+}
+
+export async function purgeExpiredTrash(
+  storage: IStorage,
+  store: AttachmentStore,
+  now = new Date(),
+  retentionDays = TRASH_RETENTION_DAYS
+): Promise<{ trades: number; collections: number }> {
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  return purgeTrash(storage, store, await storage.getTrashedBefore(cutoff));
+}
+
+// Purge expired trash every hour. The timer doesn't keep the process alive.
+export function startTrashSweep(storage: IStorage, store: AttachmentStore): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    purgeExpiredTrash(storage, store)
+      .then(({ trades, collections }) => {
+        if (trades || collections) {
+          log(`purged ${trades} trades and ${collections} collections from the trash`, "trash");
+        }
+      })
+      .catch((error) => console.error("Error purging expired trash:", error));
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
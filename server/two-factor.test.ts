@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { User } from "@shared/schema";
+import {
+  TOTP_PERIOD_SECONDS,
+  base32Decode,
+  base32Encode,
+  currentStep,
+  encryptSecret,
+  generateRecoveryCodes,
+  totpCode,
+  verifySecondFactor,
+  verifyTotp,
+} from "./two-factor";
+
+// The SHA-1 seed from RFC 6238 appendix B
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+test("codes match the RFC 6238 test vectors", () => {
+  // The RFC lists 8 digits; these are the last 6
+  const vectors: [number, string][] = [
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+    [20000000000, "353130"],
+  ];
+
+  for (const [seconds, code] of vectors) {
+    assert.equal(totpCode(RFC_SECRET, Math.floor(seconds / TOTP_PERIOD_SECONDS)), code, `T = ${seconds}`);
+  }
+});
+
+test("base32 round-trips and ignores padding, spaces and case", () => {
+  assert.equal(RFC_SECRET, "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+  assert.equal(base32Decode("gezd gnbv gy3t qojq gezd gnbv gy3t qojq====").toString(), "12345678901234567890");
+  assert.throws(() => base32Decode("GEZD1"), /Invalid base32/);
+});
+
+test("one step of drift is allowed either way", () => {
+  const now = 1111111111 * 1000;
+  const step = currentStep(now);
+
+  assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now), step - 1);
+  assert.equal(verifyTotp(RFC_SECRET, "050 471", now), step);
+  assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now), null);
+  assert.equal(verifyTotp(RFC_SECRET, "05047", now), null);
+});
+
+function enrolledUser(state: object = {}): User {
+  return { id: 1, twoFactorEnabled: true, twoFactorSecret: encryptSecret(RFC_SECRET), ...state } as unknown as User;
+}
+
+test("a code can't be used twice", () => {
+  const code = totpCode(RFC_SECRET, currentStep());
+
+  const first = verifySecondFactor(enrolledUser(), { code });
+  assert.ok(first.ok);
+  const { twoFactorLastStep } = first.update;
+  assert.ok(twoFactorLastStep);
+
+  assert.deepEqual(verifySecondFactor(enrolledUser({ twoFactorLastStep }), { code }), { ok: false });
+  // Nor can an earlier one, once a later step has been accepted
+  const earlier = totpCode(RFC_SECRET, twoFactorLastStep - 1);
+  assert.deepEqual(verifySecondFactor(enrolledUser({ twoFactorLastStep }), { code: earlier }), { ok: false });
+});
+
+test("recovery codes are spent when used", () => {
+  const { codes, hashes } = generateRecoveryCodes();
+  const user = enrolledUser({ twoFactorRecoveryCodes: hashes });
+
+  const result = verifySecondFactor(user, { recoveryCode: codes[3].toUpperCase() });
+  assert.ok(result.ok);
+  assert.equal(result.update.twoFactorRecoveryCodes?.length, hashes.length - 1);
+
+  const spent = enrolledUser({ twoFactorRecoveryCodes: result.update.twoFactorRecoveryCodes });
+  assert.deepEqual(verifySecondFactor(spent, { recoveryCode: codes[3] }), { ok: false });
+});
@@ -0,0 +1,210 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { User } from "@shared/schema";
+import { environmentSecret, sessionSecret } from "./session-store";
+
+// Two-factor state stored on the user
+export interface TwoFactorState {
+  twoFactorEnabled: boolean;
+  // Encrypted TOTP secret, set once enrollment is confirmed
+  twoFactorSecret: string | null;
+  // Encrypted secret waiting for the user to confirm a first code
+  twoFactorPendingSecret: string | null;
+  // SHA-256 hashes of the unused recovery codes
+  twoFactorRecoveryCodes: string[];
+  // Last accepted time step, so a code can't be replayed
+  twoFactorLastStep: number | null;
+}
+
+export type TwoFactorUser = User & Partial<TwoFactorState>;
+
+declare module "express-session" {
+  interface SessionData {
+    // Set after a correct password for a user with 2FA, until a code is verified
+    twoFactorChallenge?: { userId: number; expiresAt: number; attempts: number };
+  }
+}
+
+export const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+export const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+export const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function isTwoFactorEnabled(user: User): boolean {
+  return (user as TwoFactorUser).twoFactorEnabled === true;
+}
+
+// User as sent to clients: no password hash or 2FA secrets
+export function toPublicUser(user: User) {
+  const {
+    password,
+    twoFactorSecret,
+    twoFactorPendingSecret,
+    twoFactorRecoveryCodes,
+    twoFactorLastStep,
+    ...publicUser
+  } = user as TwoFactorUser;
+
+  return {
+    ...publicUser,
+    twoFactorEnabled: publicUser.twoFactorEnabled === true,
+    ...(publicUser.twoFactorEnabled && { recoveryCodesRemaining: twoFactorRecoveryCodes?.length ?? 0 }),
+  };
+}
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, "").replace(/\s/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// RFC 6238 code for a given time step
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const digest = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+export function currentStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+// Returns the matching time step, allowing one step of clock drift either way
+export function verifyTotp(secret: string, code: string, now = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const step = currentStep(now);
+  for (const candidate of [step - 1, step, step + 1]) {
+    const expected = Buffer.from(totpCode(secret, candidate));
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+export function provisioningUri(secret: string, accountName: string, issuer = process.env.TOTP_ISSUER || "ColdHarbor"): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD_SECONDS.toString(),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.replace(/[\s-]/g, "").toLowerCase()).digest("hex");
+}
+
+// Plain codes to show the user once, and the hashes to store
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// Returns the remaining hashes if the code matched one, or null
+export function useRecoveryCode(hashes: string[], code: string): string[] | null {
+  const hashed = hashRecoveryCode(code);
+  return hashes.includes(hashed) ? hashes.filter((h) => h !== hashed) : null;
+}
+
+// Secrets are encrypted at rest with AES-256-GCM
+function encryptionKey(): Buffer {
+  const secret = process.env.TWO_FACTOR_KEY ? environmentSecret("TWO_FACTOR_KEY") : sessionSecret();
+  return createHash("sha256").update(secret).digest();
+}
+
+export function encryptSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf-8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64url")).join(".");
+}
+
+export function decryptSecret(payload: string): string {
+  const [iv, tag, encrypted] = payload.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf-8");
+}
+
+export type SecondFactorResult =
+  | { ok: true; update: Partial<TwoFactorState> }
+  | { ok: false };
+
+// Check a TOTP code or a recovery code against an enrolled user. On success,
+// returns the state changes to persist (replay guard or spent recovery code).
+export function verifySecondFactor(user: User, input: { code?: string; recoveryCode?: string }): SecondFactorResult {
+  const state = user as TwoFactorUser;
+  if (!state.twoFactorEnabled || !state.twoFactorSecret) return { ok: false };
+
+  if (input.code) {
+    const step = verifyTotp(decryptSecret(state.twoFactorSecret), input.code);
+    if (step === null || (state.twoFactorLastStep != null && step <= state.twoFactorLastStep)) {
+      return { ok: false };
+    }
+    return { ok: true, update: { twoFactorLastStep: step } };
+  }
+
+  if (input.recoveryCode) {
+    const remaining = useRecoveryCode(state.twoFactorRecoveryCodes ?? [], input.recoveryCode);
+    return remaining ? { ok: true, update: { twoFactorRecoveryCodes: remaining } } : { ok: false };
+  }
+
+  return { ok: false };
+}
@@ -0,0 +1,75 @@
+import type { NextFunction, Request, Response } from "express";
+import { z, type ZodTypeAny } from "zod";
+import { ValidationError, sendError, toFieldErrors, type FieldError } from "./errors";
+
+export interface RequestSchemas {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+// Route ids are positive integers. Other route params are left as they are.
+export const idParamsSchema = z
+  .object({
+    id: z.coerce.number().int().positive(),
+  })
+  .passthrough();
+
+export const attachmentParamsSchema = idParamsSchema.extend({ attachmentId: z.coerce.number().int().positive() });
+export const executionParamsSchema = idParamsSchema.extend({ executionId: z.coerce.number().int().positive() });
+export const versionParamsSchema = idParamsSchema.extend({ version: z.coerce.number().int().positive() });
+
+// Middleware that carries the schemas of the request it accepts, which is
+// what the OpenAPI document describes the route with
+export type DocumentedMiddleware<S extends RequestSchemas = RequestSchemas> = ((req: Request, res: Response, next: NextFunction) => unknown) & {
+  requestSchemas: S;
+};
+
+// A request's parts as the given schemas parse them
+export type ValidatedRequest<S extends RequestSchemas> = {
+  [K in keyof S]: S[K] extends ZodTypeAny ? z.output<S[K]> : never;
+};
+
+export function requestSchemasOf(handler: Function): RequestSchemas | undefined {
+  return (handler as Partial<DocumentedMiddleware>).requestSchemas;
+}
+
+// Check the parts of a request against their schemas before the handler
+// runs. Parsed values replace the raw ones, so handlers see coerced numbers
+// and defaults. Problems in every part are reported together.
+export const validate = <S extends RequestSchemas>(schemas: S, message = "Invalid request"): DocumentedMiddleware<S> =>
+  Object.assign(
+    (req: Request, res: Response, next: NextFunction) => {
+      const errors: FieldError[] = [];
+
+      for (const location of ["params", "query", "body"] as const) {
+        const schema = schemas[location];
+        if (!schema) continue;
+
+        const result = schema.safeParse(req[location]);
+        if (result.success) {
+          Object.assign(req, { [location]: result.data });
+        } else {
+          errors.push(...toFieldErrors(result.error, location));
+        }
+      }
+
+      if (errors.length > 0) {
+        return sendError(res, new ValidationError(message, errors));
+      }
+      next();
+    },
+    { requestSchemas: schemas }
+  );
+
+// The parts of a request that the given validate() middleware checked and
+// replaced, typed from its schemas. Only for handlers behind it.
+export function validatedRequest<S extends RequestSchemas>(req: Request, _middleware: DocumentedMiddleware<S>): ValidatedRequest<S> {
+  return { params: req.params, query: req.query, body: req.body } as ValidatedRequest<S>;
+}
+
+// Describe the request of a handler that validates it itself, because it
+// needs to do something first (like counting a login attempt) or adds
+// fields from the session before parsing. Checks nothing.
+export const documentRequest = (schemas: RequestSchemas): DocumentedMiddleware =>
+  Object.assign((_req: Request, _res: Response, next: NextFunction) => next(), { requestSchemas: schemas });
@@ -0,0 +1,116 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { User } from "@shared/schema";
+import type { Mailer } from "./mailer";
+import type { IStorage } from "./storage";
+import { environmentSecret, sessionSecret } from "./session-store";
+
+export type TokenPurpose = "verify-email" | "reset-password";
+
+const TOKEN_TTL_MS: Record<TokenPurpose, number> = {
+  "verify-email": 24 * 60 * 60 * 1000,
+  "reset-password": 60 * 60 * 1000,
+};
+
+interface TokenPayload {
+  purpose: TokenPurpose;
+  userId: number;
+  // Unique id, recorded on use so a token only works once
+  jti: string;
+  // Expiry, milliseconds since epoch
+  exp: number;
+  // Fingerprint of the password hash, so a reset also invalidates older reset links
+  pwd?: string;
+}
+
+export type VerifiedToken = TokenPayload;
+
+// Users created before verification existed have no flag and count as verified
+export type VerifiableUser = User & { emailVerified?: boolean };
+
+export function isEmailVerified(user: User): boolean {
+  return (user as VerifiableUser).emailVerified !== false;
+}
+
+// A separate TOKEN_SECRET lets email links be revoked without signing
+// everyone out
+function tokenSecret(): string {
+  return process.env.TOKEN_SECRET ? environmentSecret("TOKEN_SECRET") : sessionSecret();
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", tokenSecret()).update(data).digest("base64url");
+}
+
+function passwordFingerprint(user: User): string {
+  return createHash("sha256").update(user.password).digest("hex").slice(0, 16);
+}
+
+export function createAccountToken(user: User, purpose: TokenPurpose, now = Date.now()): string {
+  const payload: TokenPayload = {
+    purpose,
+    userId: user.id,
+    jti: randomUUID(),
+    exp: now + TOKEN_TTL_MS[purpose],
+    ...(purpose === "reset-password" && { pwd: passwordFingerprint(user) }),
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+// Check signature, purpose and expiry. Does not mark the token as used.
+export function readAccountToken(token: string, purpose: TokenPurpose, now = Date.now()): VerifiedToken | null {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, "base64url").toString("utf-8")) as TokenPayload;
+    if (payload.purpose !== purpose || payload.exp < now) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Verify a token and consume it. Returns the user it was issued for, or
+// null when the token is invalid, expired or already used.
+export async function consumeAccountToken(storage: IStorage, token: string, purpose: TokenPurpose): Promise<User | null> {
+  const payload = readAccountToken(token, purpose);
+  if (!payload) return null;
+
+  const user = await storage.getUser(payload.userId);
+  if (!user) return null;
+  if (payload.pwd && payload.pwd !== passwordFingerprint(user)) return null;
+
+  const firstUse = await storage.consumeOneTimeToken(payload.jti, new Date(payload.exp));
+  return firstUse ? user : null;
+}
+
+function appUrl(pathname: string): string {
+  return new URL(pathname, process.env.APP_URL || "http://localhost:5000").toString();
+}
+
+export async function sendVerificationEmail(mailer: Mailer, user: User): Promise<void> {
+  const token = createAccountToken(user, "verify-email");
+  const link = appUrl(`/verify-email?token=${encodeURIComponent(token)}`);
+
+  await mailer.send({
+    to: user.email,
+    subject: "Confirm your email address",
+    text: `Hi ${user.username},\n\nConfirm your email address by opening this link:\n${link}\n\nThe link expires in 24 hours.`,
+  });
+}
+
+export async function sendPasswordResetEmail(mailer: Mailer, user: User): Promise<void> {
+  const token = createAccountToken(user, "reset-password");
+  const link = appUrl(`/reset-password?token=${encodeURIComponent(token)}`);
+
+  await mailer.send({
+    to: user.email,
+    subject: "Reset your password",
+    text: `Hi ${user.username},\n\nSomeone asked to reset the password for your account. If that was you, open this link:\n${link}\n\nThe link expires in 1 hour. If you didn't ask for this you can ignore this email.`,
+  });
+}
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PassThrough, Writable } from "stream";
+import { ZipError, ZipWriter, readZip } from "./zip";
+
+async function zip(files: Record<string, Buffer | string>): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+  const writer = new ZipWriter(output);
+  for (const [name, contents] of Object.entries(files)) {
+    await writer.addFile(name, contents);
+  }
+  await writer.finish();
+  return Buffer.concat(chunks);
+}
+
+test("archives read back what was written", async () => {
+  const archive = await zip({ "trades.json": JSON.stringify([{ id: 1 }]), "attachments/1.png": Buffer.from([1, 2, 3]) });
+  const files = await readZip(archive, 1024);
+
+  assert.equal(files.get("trades.json")?.toString(), '[{"id":1}]');
+  assert.deepEqual(files.get("attachments/1.png"), Buffer.from([1, 2, 3]));
+});
+
+test("an entry that inflates past its declared size is a ZipError", async () => {
+  const archive = await zip({ "trades.json": "a".repeat(1000) });
+  // Shrink the size in the central directory, which the reader trusts
+  const central = archive.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+  archive.writeUInt32LE(10, central + 24);
+
+  await assert.rejects(readZip(archive, 1024), ZipError);
+});
+
+test("corrupt deflate data is a ZipError", async () => {
+  const archive = await zip({ "trades.json": "a".repeat(1000) });
+  const dataStart = 30 + "trades.json".length;
+  archive.fill(0xff, dataStart, dataStart + 4);
+
+  await assert.rejects(readZip(archive, 1024), ZipError);
+});
+
+test("only the files asked for are read and counted against the limit", async () => {
+  const archive = await zip({ "manifest.json": "{}", "trades.json": "a".repeat(5000) });
+  const files = await readZip(archive, 100, (name) => name === "manifest.json");
+
+  assert.deepEqual([...files.keys()], ["manifest.json"]);
+  await assert.rejects(readZip(archive, 100), /too large/);
+});
+
+test("writing stops when the output closes while waiting to drain", async () => {
+  // Never calls back, so the first write fills the buffer and it stays full
+  const output = new Writable({ highWaterMark: 1, write: () => {} });
+  const writer = new ZipWriter(output);
+
+  const pending = writer.addFile("trades.json", "[]");
+  output.destroy();
+
+  await assert.rejects(pending, ZipError);
+  await assert.rejects(writer.addFile("executions.json", "[]"), ZipError);
+});
+
+test("writing stops when the output fails", async () => {
+  const output = new Writable({ highWaterMark: 1, write: () => {} });
+  const writer = new ZipWriter(output);
+
+  const pending = writer.addFile("trades.json", "[]");
+  output.destroy(new Error("socket hang up"));
+
+  await assert.rejects(pending, /socket hang up/);
+});
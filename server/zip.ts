@@ -0,0 +1,247 @@
+import { deflateRawSync, inflateRaw } from "zlib";
+import { promisify } from "util";
+import type { Writable } from "stream";
+
+// Minimal ZIP reader and writer for data exports. Entries are deflated or
+// stored, without ZIP64, encryption or multi-disk support, which is all the
+// archives we produce need and what common zip tools write for small files.
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const inflateRawAsync = promisify(inflateRaw);
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+// Bit 11: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+
+export class ZipError extends Error {}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, local to the server like other zip tools
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface CentralEntry {
+  name: Buffer;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+// Writes entries to a stream as they are added, so large exports don't have
+// to be assembled in memory. Respects backpressure from the output.
+export class ZipWriter {
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+  private names = new Set<string>();
+
+  constructor(private output: Writable) {}
+
+  async addFile(name: string, contents: Buffer | string, modified = new Date()): Promise<void> {
+    if (this.names.has(name)) {
+      throw new ZipError(`Duplicate zip entry ${name}`);
+    }
+    this.names.add(name);
+
+    const data = typeof contents === "string" ? Buffer.from(contents, "utf-8") : contents;
+    const deflated = deflateRawSync(data);
+    // Already compressed files (images) are stored if deflate doesn't help
+    const method = deflated.length < data.length ? METHOD_DEFLATE : METHOD_STORE;
+    const body = method === METHOD_DEFLATE ? deflated : data;
+    const { time, date } = dosDateTime(modified);
+
+    const entry: CentralEntry = {
+      name: Buffer.from(name, "utf-8"),
+      method,
+      crc: crc32(data),
+      compressedSize: body.length,
+      size: data.length,
+      offset: this.offset,
+      time,
+      date,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_HEADER, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(FLAG_UTF8, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(entry.time, 10);
+    header.writeUInt16LE(entry.date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    await this.write(Buffer.concat([header, entry.name]));
+    await this.write(body);
+    this.entries.push(entry);
+  }
+
+  // Write the central directory. The output stream is left open.
+  async finish(): Promise<void> {
+    const start = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_HEADER, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(FLAG_UTF8, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.write(end);
+  }
+
+  private write(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    if (this.offset > 0xffffffff) {
+      throw new ZipError("Archive is too large");
+    }
+    if (this.output.destroyed) {
+      return Promise.reject(new ZipError("Output closed before the archive was written"));
+    }
+    if (this.output.write(chunk)) return Promise.resolve();
+
+    // Wait for the output to drain, unless it fails or the client goes away
+    // first, which would leave the export waiting forever
+    return new Promise((resolve, reject) => {
+      const settle = (error?: Error) => {
+        this.output.off("drain", onDrain);
+        this.output.off("error", onError);
+        this.output.off("close", onClose);
+        if (error) reject(error);
+        else resolve();
+      };
+      const onDrain = () => settle();
+      const onError = (error: Error) => settle(error);
+      const onClose = () => settle(new ZipError("Output closed before the archive was written"));
+      this.output.on("drain", onDrain);
+      this.output.on("error", onError);
+      this.output.on("close", onClose);
+    });
+  }
+}
+
+// Read the files in an archive that include accepts into memory. maxSize
+// caps their total uncompressed size, so a small upload can't expand into
+// gigabytes. Inflating runs on the thread pool rather than the event loop.
+export async function readZip(archive: Buffer, maxSize: number, include: (name: string) => boolean = () => true): Promise<Map<string, Buffer>> {
+  const endOffset = findEndOfCentralDirectory(archive);
+  const count = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+
+  const files = new Map<string, Buffer>();
+  let total = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_HEADER) {
+      throw new ZipError("Corrupt zip central directory");
+    }
+
+    const method = archive.readUInt16LE(offset + 10);
+    const crc = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString("utf-8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directories have no contents
+    if (name.endsWith("/") || !include(name)) continue;
+
+    total += size;
+    if (total > maxSize) {
+      throw new ZipError("Archive contents are too large");
+    }
+
+    if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== LOCAL_HEADER) {
+      throw new ZipError(`Corrupt zip entry ${name}`);
+    }
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const body = archive.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === METHOD_STORE) {
+      data = Buffer.from(body);
+    } else if (method === METHOD_DEFLATE) {
+      // Inflating past the declared size is a RangeError, other bad data a
+      // zlib error. Either way the entry is corrupt, not a server failure.
+      try {
+        data = await inflateRawAsync(body, { maxOutputLength: Math.max(size, 1) });
+      } catch {
+        throw new ZipError(`Corrupt zip entry ${name}`);
+      }
+    } else {
+      throw new ZipError(`Unsupported compression method ${method} for ${name}`);
+    }
+
+    if (data.length !== size || crc32(data) !== crc) {
+      throw new ZipError(`Checksum mismatch for ${name}`);
+    }
+    files.set(name, data);
+  }
+
+  return files;
+}
+
+// The end of central directory record is the last 22 bytes, unless the
+// archive has a comment (at most 64KB) after it
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const earliest = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new ZipError("Not a zip archive");
+}